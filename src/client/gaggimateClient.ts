@@ -0,0 +1,299 @@
+// Persistent WebSocket client for the Gaggimate /ws API
+// Multiplexes req:*/res:* messages by rid over a single long-lived connection
+
+import WebSocket from "ws";
+
+const DEFAULT_REQUEST_TIMEOUT = 5000;
+const RECONNECT_BASE_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 30000;
+
+export interface GaggimateClientOptions {
+  url: string;
+  requestTimeout?: number;
+}
+
+export interface GaggimateMessage {
+  tp: string;
+  rid?: string;
+  error?: string;
+  [key: string]: any;
+}
+
+export type MessageListener = (message: GaggimateMessage) => void;
+
+interface PendingRequest {
+  responseType: string;
+  resolve: (response: GaggimateMessage) => void;
+  reject: (error: Error) => void;
+  timeoutHandle: NodeJS.Timeout;
+}
+
+// Generate unique request ID
+function generateRequestId(): string {
+  return `mcp-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+}
+
+/**
+ * Delay before reconnect attempt n (0-based): 1s, 2s, 4s, ... capped at 30s
+ */
+export function reconnectDelay(attempt: number): number {
+  return Math.min(RECONNECT_BASE_DELAY * 2 ** attempt, RECONNECT_MAX_DELAY);
+}
+
+export class GaggimateClient {
+  readonly url: string;
+  private readonly requestTimeout: number;
+  private ws: WebSocket | null = null;
+  private connecting: Promise<WebSocket> | null = null;
+  private pending = new Map<string, PendingRequest>();
+  private listeners = new Set<MessageListener>();
+  private reconnectAttempt = 0;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private closed = false;
+
+  constructor(options: GaggimateClientOptions) {
+    this.url = options.url;
+    this.requestTimeout = options.requestTimeout ?? DEFAULT_REQUEST_TIMEOUT;
+  }
+
+  /**
+   * Whether the underlying socket is currently open
+   */
+  get connected(): boolean {
+    return this.ws !== null && this.ws.readyState === WebSocket.OPEN;
+  }
+
+  /**
+   * Open the connection (or return the already open / in-flight one)
+   */
+  connect(): Promise<WebSocket> {
+    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+      return Promise.resolve(this.ws);
+    }
+    if (this.connecting) {
+      return this.connecting;
+    }
+
+    // A caller needs the socket now, don't wait for the backoff timer
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.closed = false;
+
+    this.connecting = new Promise<WebSocket>((resolve, reject) => {
+      const ws = new WebSocket(this.url);
+      let settled = false;
+
+      const timeoutHandle = setTimeout(() => {
+        if (!settled) {
+          settled = true;
+          ws.terminate();
+          reject(new Error(`Request timeout: No response from Gaggimate at ${this.url}`));
+        }
+      }, this.requestTimeout);
+
+      ws.on("open", () => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timeoutHandle);
+        this.ws = ws;
+        this.reconnectAttempt = 0;
+        resolve(ws);
+      });
+
+      ws.on("message", (data: WebSocket.Data) => this.handleMessage(data));
+
+      ws.on("error", (error) => {
+        if (!settled) {
+          settled = true;
+          clearTimeout(timeoutHandle);
+          reject(new Error(`WebSocket error: ${error.message}`));
+        }
+      });
+
+      ws.on("close", () => {
+        clearTimeout(timeoutHandle);
+        if (!settled) {
+          settled = true;
+          reject(new Error(`WebSocket closed unexpectedly`));
+        }
+        if (this.ws === ws) {
+          this.ws = null;
+          this.rejectAllPending(new Error(`WebSocket closed unexpectedly`));
+        }
+        this.scheduleReconnect();
+      });
+    }).finally(() => {
+      this.connecting = null;
+    });
+
+    return this.connecting;
+  }
+
+  /**
+   * Send a `req:<type>` message and resolve with the matching `res:<type>` message
+   */
+  async request(type: string, payload: Record<string, any> = {}, timeout?: number): Promise<GaggimateMessage> {
+    const ws = await this.connect();
+    const rid = generateRequestId();
+
+    return new Promise<GaggimateMessage>((resolve, reject) => {
+      const timeoutHandle = setTimeout(() => {
+        this.pending.delete(rid);
+        reject(new Error(`Request timeout: No response from Gaggimate at ${this.url}`));
+      }, timeout ?? this.requestTimeout);
+
+      this.pending.set(rid, { responseType: `res:${type}`, resolve, reject, timeoutHandle });
+
+      try {
+        ws.send(JSON.stringify({ tp: `req:${type}`, rid, ...payload }));
+      } catch (error) {
+        clearTimeout(timeoutHandle);
+        this.pending.delete(rid);
+        reject(new Error(`WebSocket error: ${error instanceof Error ? error.message : error}`));
+      }
+    });
+  }
+
+  /**
+   * Receive every message that is not a response to one of our requests (e.g. evt:status)
+   */
+  subscribe(listener: MessageListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Close the connection and stop reconnecting
+   */
+  close(): void {
+    this.closed = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.rejectAllPending(new Error(`Gaggimate client closed`));
+    if (this.ws) {
+      this.ws.close();
+      this.ws = null;
+    }
+  }
+
+  async listProfiles(): Promise<any[]> {
+    const response = await this.request("profiles:list");
+    if (response.error) {
+      throw new Error(`Gaggimate API error: ${response.error}`);
+    }
+    return response.profiles || [];
+  }
+
+  async loadProfile(profileId: string): Promise<any | null> {
+    const response = await this.request("profiles:load", { id: profileId });
+    if (response.error) {
+      throw new Error(`Gaggimate API error: ${response.error}`);
+    }
+    return response.profile || null;
+  }
+
+  async saveProfile(profile: any): Promise<any> {
+    const response = await this.request("profiles:save", { profile });
+    if (response.error) {
+      throw new Error(`Failed to save profile: ${response.error}`);
+    }
+    return response.profile || { success: true };
+  }
+
+  async selectProfile(profileId: string): Promise<void> {
+    const response = await this.request("profiles:select", { id: profileId });
+    if (response.error) {
+      throw new Error(`Failed to select profile: ${response.error}`);
+    }
+  }
+
+  async setProfileFavorite(profileId: string, favorite: boolean): Promise<void> {
+    const type = favorite ? "profiles:favorite" : "profiles:unfavorite";
+    const response = await this.request(type, { id: profileId });
+    if (response.error) {
+      throw new Error(`Failed to ${favorite ? "favorite" : "unfavorite"} profile: ${response.error}`);
+    }
+  }
+
+  async deleteProfile(profileId: string): Promise<void> {
+    const response = await this.request("profiles:delete", { id: profileId });
+    if (response.error) {
+      throw new Error(`Failed to delete profile: ${response.error}`);
+    }
+  }
+
+  async getShotNotes(shotId: string): Promise<any | null> {
+    const response = await this.request("history:notes:get", { id: shotId });
+    if (response.error) {
+      throw new Error(`Gaggimate API error: ${response.error}`);
+    }
+    return response.notes || null;
+  }
+
+  async saveShotNotes(shotId: string, notes: any): Promise<any> {
+    const response = await this.request("history:notes:save", { id: shotId, notes });
+    if (response.error) {
+      throw new Error(`Failed to save shot notes: ${response.error}`);
+    }
+    return response.notes || notes;
+  }
+
+  private handleMessage(data: WebSocket.Data): void {
+    let message: GaggimateMessage;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      // Ignore frames that are not JSON
+      return;
+    }
+
+    if (message.rid && this.pending.has(message.rid)) {
+      const request = this.pending.get(message.rid)!;
+      if (message.tp === request.responseType) {
+        clearTimeout(request.timeoutHandle);
+        this.pending.delete(message.rid);
+        request.resolve(message);
+        return;
+      }
+    }
+
+    for (const listener of this.listeners) {
+      try {
+        listener(message);
+      } catch (error) {
+        console.error("Gaggimate message listener failed:", error);
+      }
+    }
+  }
+
+  private rejectAllPending(error: Error): void {
+    for (const [rid, request] of this.pending) {
+      clearTimeout(request.timeoutHandle);
+      this.pending.delete(rid);
+      request.reject(error);
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (this.closed || this.reconnectTimer) {
+      return;
+    }
+
+    const delay = reconnectDelay(this.reconnectAttempt);
+    this.reconnectAttempt++;
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect().catch(() => {
+        // close handler schedules the next attempt
+      });
+    }, delay);
+    this.reconnectTimer.unref();
+  }
+}
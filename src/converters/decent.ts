@@ -0,0 +1,349 @@
+// Decent Espresso profiles: v2 JSON and legacy .tcl advanced shots
+
+import { parseTclDict, parseTclList, formatTclDict, quoteTcl } from './tcl.js';
+import {
+  ConvertedProfile,
+  ExportResult,
+  ImportResult,
+  addFinalWeightTarget,
+  exportPump,
+  guessPhaseType,
+  importPump,
+  importTransition,
+  toNumber,
+} from './types.js';
+import { round } from '../utils/math.js';
+
+// Decent limits each step to 127 seconds
+const MAX_STEP_SECONDS = 127;
+
+// One advanced step, common to the JSON and Tcl encodings
+interface DecentStep {
+  name: string;
+  temperature: number;
+  sensor: string;
+  pump: 'pressure' | 'flow';
+  transition: 'fast' | 'smooth';
+  pressure: number;
+  flow: number;
+  seconds: number;
+  volume: number;
+  weight: number;
+  exit: { type: 'pressure' | 'flow'; condition: 'over' | 'under'; value: number } | null;
+  limiter: { value: number; range: number } | null;
+}
+
+interface DecentProfile {
+  title: string;
+  notes: string;
+  targetWeight: number;
+  targetVolume: number;
+  steps: DecentStep[];
+}
+
+function readJsonStep(step: any): DecentStep {
+  const exit = step.exit && step.exit.type
+    ? {
+        type: step.exit.type === 'flow' ? 'flow' as const : 'pressure' as const,
+        condition: step.exit.condition === 'under' ? 'under' as const : 'over' as const,
+        value: toNumber(step.exit.value),
+      }
+    : null;
+  const limiter = step.limiter && toNumber(step.limiter.value) > 0
+    ? { value: toNumber(step.limiter.value), range: toNumber(step.limiter.range) }
+    : null;
+
+  return {
+    name: String(step.name || ''),
+    temperature: toNumber(step.temperature),
+    sensor: String(step.sensor || 'coffee'),
+    pump: step.pump === 'flow' ? 'flow' : 'pressure',
+    transition: step.transition === 'smooth' ? 'smooth' : 'fast',
+    pressure: toNumber(step.pressure),
+    flow: toNumber(step.flow),
+    seconds: toNumber(step.seconds),
+    volume: toNumber(step.volume),
+    weight: toNumber(step.weight),
+    exit,
+    limiter,
+  };
+}
+
+function readTclStep(source: string): DecentStep {
+  const step = parseTclDict(source);
+
+  let exit: DecentStep['exit'] = null;
+  if (step.exit_if === '1' && step.exit_type) {
+    const [type, condition] = step.exit_type.split('_');
+    exit = {
+      type: type === 'flow' ? 'flow' : 'pressure',
+      condition: condition === 'under' ? 'under' : 'over',
+      value: toNumber(step[`exit_${step.exit_type}`]),
+    };
+  }
+
+  const limit = toNumber(step.max_flow_or_pressure);
+
+  return {
+    name: step.name || '',
+    temperature: toNumber(step.temperature),
+    sensor: step.sensor || 'coffee',
+    pump: step.pump === 'flow' ? 'flow' : 'pressure',
+    transition: step.transition === 'smooth' ? 'smooth' : 'fast',
+    pressure: toNumber(step.pressure),
+    flow: toNumber(step.flow),
+    seconds: toNumber(step.seconds),
+    volume: toNumber(step.volume),
+    weight: toNumber(step.weight),
+    exit,
+    limiter: limit > 0 ? { value: limit, range: toNumber(step.max_flow_or_pressure_range) } : null,
+  };
+}
+
+function readDecentJson(content: string): DecentProfile {
+  const data = JSON.parse(content);
+  if (!Array.isArray(data.steps)) {
+    throw new Error('Decent JSON profile has no steps array');
+  }
+  return {
+    title: String(data.title || 'Decent profile'),
+    notes: String(data.notes || ''),
+    targetWeight: toNumber(data.target_weight),
+    targetVolume: toNumber(data.target_volume),
+    steps: data.steps.map(readJsonStep),
+  };
+}
+
+function readDecentTcl(content: string): DecentProfile {
+  const data = parseTclDict(content);
+  if (!data.advanced_shot) {
+    throw new Error(`Decent Tcl profile has no advanced_shot steps (profile type ${data.settings_profile_type || 'unknown'})`);
+  }
+  return {
+    title: data.profile_title || 'Decent profile',
+    notes: data.profile_notes || '',
+    targetWeight: toNumber(data.final_desired_shot_weight_advanced),
+    targetVolume: toNumber(data.final_desired_shot_volume_advanced),
+    steps: parseTclList(data.advanced_shot).map(readTclStep),
+  };
+}
+
+function toGaggimate(decent: DecentProfile): ImportResult {
+  const unsupported: string[] = [];
+  const temperature = decent.steps.find(step => step.temperature > 0)?.temperature || 93;
+
+  const phases = decent.steps.map((step, i) => {
+    const label = step.name || `Step ${i + 1}`;
+    const duration = step.seconds > 0 ? step.seconds : 30;
+    if (step.seconds <= 0) {
+      unsupported.push(`${label}: no step duration, using ${duration}s`);
+    }
+    if (step.sensor === 'water') {
+      unsupported.push(`${label}: water (mix) temperature sensor is treated as coffee temperature`);
+    }
+    if (step.limiter && step.limiter.range > 0) {
+      unsupported.push(`${label}: limiter range ${step.limiter.range} is ignored`);
+    }
+
+    const targets: any[] = [];
+    if (step.exit) {
+      targets.push({
+        type: step.exit.type,
+        operator: step.exit.condition === 'over' ? 'gte' : 'lte',
+        value: step.exit.value,
+      });
+    }
+    if (step.weight > 0) {
+      targets.push({ type: 'volumetric', operator: 'gte', value: step.weight });
+    }
+    if (step.volume > 0) {
+      targets.push({ type: 'pumped', operator: 'gte', value: step.volume });
+    }
+
+    const setpoint = step.pump === 'flow' ? step.flow : step.pressure;
+    return {
+      name: label,
+      phase: guessPhaseType(label, i, step.pump === 'pressure' ? step.pressure : 0),
+      valve: 1,
+      duration,
+      temperature: step.temperature || temperature,
+      transition: step.transition === 'smooth'
+        ? importTransition('linear', duration, label, unsupported)
+        : { type: 'instant', duration: 0, adaptive: true },
+      pump: importPump(step.pump, setpoint, step.limiter?.value || 0),
+      targets,
+    };
+  });
+
+  addFinalWeightTarget(phases, decent.targetWeight, unsupported);
+  if (decent.targetVolume > 0) {
+    unsupported.push(`Profile-wide target volume ${decent.targetVolume} ml is ignored`);
+  }
+
+  const profile: ConvertedProfile = {
+    description: decent.notes || `Imported from Decent profile '${decent.title}'`,
+    temperature,
+    phases,
+  };
+  return { name: decent.title, profile, unsupported };
+}
+
+export function importDecentJson(content: string): ImportResult {
+  return toGaggimate(readDecentJson(content));
+}
+
+export function importDecentTcl(content: string): ImportResult {
+  return toGaggimate(readDecentTcl(content));
+}
+
+function fromGaggimate(profile: any, unsupported: string[]): DecentProfile {
+  const phases: any[] = Array.isArray(profile.phases) ? profile.phases : [];
+  if (profile.type && profile.type !== 'pro') {
+    unsupported.push(`Only pro profiles can be exported (profile type is '${profile.type}')`);
+  }
+
+  const steps = phases.map((phase, i): DecentStep => {
+    const label = phase.name || `Phase ${i + 1}`;
+    const pump = exportPump(phase);
+    const transition = phase.transition || { type: 'instant', duration: 0 };
+    const targets: any[] = Array.isArray(phase.targets) ? phase.targets : [];
+
+    if (phase.valve === 0) {
+      unsupported.push(`${label}: closed valve phases have no Decent equivalent`);
+    }
+    if (transition.type !== 'instant' && transition.type !== 'linear') {
+      unsupported.push(`${label}: ${transition.type} transition exported as smooth (linear)`);
+    }
+    if (transition.type !== 'instant' && transition.duration < phase.duration) {
+      unsupported.push(`${label}: ${transition.duration}s transition stretched to the whole ${phase.duration}s step`);
+    }
+    if (phase.duration > MAX_STEP_SECONDS) {
+      unsupported.push(`${label}: duration capped at ${MAX_STEP_SECONDS}s`);
+    }
+
+    let exit: DecentStep['exit'] = null;
+    let weight = 0;
+    let volume = 0;
+    for (const target of targets) {
+      if ((target.type === 'pressure' || target.type === 'flow') && !exit) {
+        exit = {
+          type: target.type,
+          condition: target.operator === 'lte' ? 'under' : 'over',
+          value: target.value,
+        };
+      } else if (target.type === 'volumetric' && !weight) {
+        weight = target.value;
+      } else if (target.type === 'pumped' && !volume) {
+        volume = target.value;
+      } else {
+        unsupported.push(`${label}: additional ${target.type} stop condition dropped (Decent allows one per kind)`);
+      }
+    }
+
+    const limit = pump.target === 'flow' ? pump.pressure : pump.flow;
+    return {
+      name: label,
+      temperature: phase.temperature || profile.temperature,
+      sensor: 'coffee',
+      pump: pump.target === 'flow' ? 'flow' : 'pressure',
+      transition: transition.type === 'instant' ? 'fast' : 'smooth',
+      pressure: pump.pressure || 0,
+      flow: pump.flow || 0,
+      seconds: Math.min(phase.duration, MAX_STEP_SECONDS),
+      volume,
+      weight,
+      exit,
+      limiter: limit > 0 ? { value: limit, range: 0.6 } : null,
+    };
+  });
+
+  return {
+    title: profile.label || 'Gaggimate profile',
+    notes: profile.description || '',
+    targetWeight: 0,
+    targetVolume: 0,
+    steps,
+  };
+}
+
+export function exportDecentJson(profile: any): ExportResult {
+  const unsupported: string[] = [];
+  const decent = fromGaggimate(profile, unsupported);
+
+  const data = {
+    version: '2',
+    title: decent.title,
+    author: 'Gaggimate',
+    notes: decent.notes,
+    beverage_type: 'espresso',
+    type: 'advanced',
+    lang: 'en',
+    hidden: false,
+    legacy_profile_type: 'settings_2c',
+    tank_temperature: '0',
+    target_weight: '0',
+    target_volume: '0',
+    target_volume_count_start: '0',
+    steps: decent.steps.map(step => ({
+      name: step.name,
+      temperature: String(round(step.temperature, 1)),
+      sensor: step.sensor,
+      pump: step.pump,
+      transition: step.transition,
+      pressure: String(step.pressure),
+      flow: String(step.flow),
+      seconds: String(step.seconds),
+      volume: String(step.volume),
+      weight: String(step.weight),
+      exit: step.exit
+        ? { type: step.exit.type, condition: step.exit.condition, value: String(step.exit.value) }
+        : undefined,
+      limiter: step.limiter
+        ? { value: String(step.limiter.value), range: String(step.limiter.range) }
+        : { value: '0', range: '0.6' },
+    })),
+  };
+
+  return { content: JSON.stringify(data, null, 2), unsupported };
+}
+
+export function exportDecentTcl(profile: any): ExportResult {
+  const unsupported: string[] = [];
+  const decent = fromGaggimate(profile, unsupported);
+
+  const steps = decent.steps.map(step => {
+    const fields: { [key: string]: string | number } = {
+      name: step.name,
+      temperature: round(step.temperature, 1),
+      sensor: step.sensor,
+      pump: step.pump,
+      transition: step.transition,
+      pressure: step.pressure,
+      flow: step.flow,
+      seconds: step.seconds,
+      volume: step.volume,
+      weight: step.weight,
+      exit_if: step.exit ? 1 : 0,
+      exit_type: step.exit ? `${step.exit.type}_${step.exit.condition}` : 'pressure_over',
+      exit_pressure_over: step.exit?.type === 'pressure' && step.exit.condition === 'over' ? step.exit.value : 0,
+      exit_pressure_under: step.exit?.type === 'pressure' && step.exit.condition === 'under' ? step.exit.value : 0,
+      exit_flow_over: step.exit?.type === 'flow' && step.exit.condition === 'over' ? step.exit.value : 0,
+      exit_flow_under: step.exit?.type === 'flow' && step.exit.condition === 'under' ? step.exit.value : 0,
+      max_flow_or_pressure: step.limiter?.value || 0,
+      max_flow_or_pressure_range: step.limiter?.range || 0.6,
+    };
+    return `{${formatTclDict(fields)}}`;
+  });
+
+  const lines = [
+    `advanced_shot {${steps.join(' ')}}`,
+    `author Gaggimate`,
+    `espresso_temperature ${round(decent.steps[0]?.temperature || profile.temperature || 93, 1)}`,
+    `final_desired_shot_weight_advanced 0`,
+    `profile_notes ${quoteTcl(decent.notes)}`,
+    `profile_title ${quoteTcl(decent.title)}`,
+    `settings_profile_type settings_2c`,
+  ];
+
+  return { content: lines.join('\n') + '\n', unsupported };
+}
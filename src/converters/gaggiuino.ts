@@ -0,0 +1,173 @@
+// Gaggiuino profile JSON: pressure/flow phases with curves, restrictions and stop conditions
+
+import {
+  ConvertedProfile,
+  ExportResult,
+  ImportResult,
+  addFinalWeightTarget,
+  exportPump,
+  guessPhaseType,
+  importPump,
+  importTransition,
+  toNumber,
+} from './types.js';
+import { round } from '../utils/math.js';
+
+const DEFAULT_PHASE_SECONDS = 30;
+
+const CURVE_TO_TRANSITION: { [curve: string]: string } = {
+  INSTANT: 'instant',
+  LINEAR: 'linear',
+  EASE_IN: 'ease-in',
+  EASE_OUT: 'ease-out',
+  EASE_IN_OUT: 'linear',
+};
+
+const TRANSITION_TO_CURVE: { [type: string]: string } = {
+  'instant': 'INSTANT',
+  'linear': 'LINEAR',
+  'ease-in': 'EASE_IN',
+  'ease-out': 'EASE_OUT',
+};
+
+export function importGaggiuino(content: string): ImportResult {
+  const data = JSON.parse(content);
+  if (!Array.isArray(data.phases)) {
+    throw new Error('Gaggiuino profile has no phases array');
+  }
+
+  const unsupported: string[] = [];
+  const temperature = toNumber(data.waterTemperature, 93);
+  const phases: any[] = [];
+
+  data.phases.forEach((phase: any, i: number) => {
+    const label = String(phase.name || `Phase ${i + 1}`);
+    if (phase.skip) {
+      unsupported.push(`${label}: skipped phase not imported`);
+      return;
+    }
+
+    const target = phase.target || {};
+    const stop = phase.stopConditions || {};
+    const isFlow = String(phase.type).toUpperCase() === 'FLOW';
+    const setpoint = toNumber(target.end);
+    const curve = String(target.curve || 'INSTANT').toUpperCase();
+
+    if (curve === 'EASE_IN_OUT') {
+      unsupported.push(`${label}: EASE_IN_OUT curve approximated as linear`);
+    }
+    if (target.start !== undefined && target.start !== null) {
+      unsupported.push(`${label}: explicit start value ${target.start} ignored (ramps from the previous phase)`);
+    }
+
+    let duration = toNumber(stop.time) / 1000;
+    if (duration <= 0) {
+      duration = DEFAULT_PHASE_SECONDS;
+      unsupported.push(`${label}: no time stop condition, using ${DEFAULT_PHASE_SECONDS}s`);
+    }
+
+    const targets: any[] = [];
+    const addTarget = (type: string, operator: string, value: any) => {
+      if (toNumber(value) > 0) targets.push({ type, operator, value: toNumber(value) });
+    };
+    addTarget('pressure', 'gte', stop.pressureAbove);
+    addTarget('pressure', 'lte', stop.pressureBelow);
+    addTarget('flow', 'gte', stop.flowAbove);
+    addTarget('flow', 'lte', stop.flowBelow);
+    addTarget('volumetric', 'gte', stop.weight);
+    addTarget('pumped', 'gte', stop.waterPumpedInPhase);
+
+    const transitionSeconds = toNumber(target.time) / 1000;
+    const transitionType = CURVE_TO_TRANSITION[curve] || 'linear';
+
+    phases.push({
+      name: label,
+      phase: guessPhaseType(label, i, isFlow ? 0 : setpoint),
+      valve: 1,
+      duration: round(duration, 1),
+      temperature,
+      transition: transitionType === 'instant'
+        ? { type: 'instant', duration: 0, adaptive: true }
+        : importTransition(transitionType, Math.min(transitionSeconds || duration, duration), label, unsupported),
+      pump: importPump(isFlow ? 'flow' : 'pressure', setpoint, toNumber(phase.restriction)),
+      targets,
+    });
+  });
+
+  const global = data.globalStopConditions || {};
+  addFinalWeightTarget(phases, toNumber(global.weight), unsupported);
+  if (toNumber(global.time) > 0) {
+    unsupported.push(`Global time limit ${toNumber(global.time) / 1000}s ignored`);
+  }
+  if (toNumber(global.waterPumped) > 0) {
+    unsupported.push(`Global water pumped limit ${toNumber(global.waterPumped)} ml ignored`);
+  }
+
+  const profile: ConvertedProfile = {
+    description: `Imported from Gaggiuino profile '${data.name || 'unnamed'}'`,
+    temperature,
+    phases,
+  };
+  return { name: String(data.name || 'Gaggiuino profile'), profile, unsupported };
+}
+
+export function exportGaggiuino(profile: any): ExportResult {
+  const unsupported: string[] = [];
+  const phases: any[] = Array.isArray(profile.phases) ? profile.phases : [];
+
+  const exported = phases.map((phase, i) => {
+    const label = phase.name || `Phase ${i + 1}`;
+    const pump = exportPump(phase);
+    const transition = phase.transition || { type: 'instant', duration: 0 };
+    const isFlow = pump.target === 'flow';
+
+    if (phase.valve === 0) {
+      unsupported.push(`${label}: closed valve phases have no Gaggiuino equivalent`);
+    }
+    if (phase.temperature && phase.temperature !== profile.temperature) {
+      unsupported.push(`${label}: per-phase temperature ${phase.temperature}°C dropped`);
+    }
+
+    const stopConditions: { [key: string]: number } = { time: Math.round(phase.duration * 1000) };
+    for (const target of Array.isArray(phase.targets) ? phase.targets : []) {
+      const above = target.operator !== 'lte';
+      switch (target.type) {
+        case 'pressure':
+          stopConditions[above ? 'pressureAbove' : 'pressureBelow'] = target.value;
+          break;
+        case 'flow':
+          stopConditions[above ? 'flowAbove' : 'flowBelow'] = target.value;
+          break;
+        case 'volumetric':
+          stopConditions.weight = target.value;
+          break;
+        case 'pumped':
+          stopConditions.waterPumpedInPhase = target.value;
+          break;
+      }
+    }
+
+    return {
+      name: label,
+      type: isFlow ? 'FLOW' : 'PRESSURE',
+      target: {
+        end: isFlow ? pump.flow : pump.pressure,
+        curve: TRANSITION_TO_CURVE[transition.type] || 'LINEAR',
+        time: Math.round((transition.duration || 0) * 1000),
+      },
+      restriction: isFlow ? pump.pressure || 0 : pump.flow || 0,
+      stopConditions,
+      skip: false,
+    };
+  });
+
+  const data = {
+    name: profile.label || 'Gaggimate profile',
+    phases: exported,
+    globalStopConditions: {},
+    waterTemperature: profile.temperature,
+    recipe: {},
+  };
+
+  return { content: JSON.stringify(data, null, 2), unsupported };
+}
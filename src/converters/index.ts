@@ -0,0 +1,42 @@
+// Entry points for profile import/export by format
+
+import { importDecentJson, importDecentTcl, exportDecentJson, exportDecentTcl } from './decent.js';
+import { importMeticulous, exportMeticulous } from './meticulous.js';
+import { importGaggiuino, exportGaggiuino } from './gaggiuino.js';
+import { ExportResult, ImportResult, ProfileFormat } from './types.js';
+
+export { PROFILE_FORMATS } from './types.js';
+export type { ProfileFormat, ImportResult, ExportResult } from './types.js';
+
+const IMPORTERS: { [F in ProfileFormat]: (content: string) => ImportResult } = {
+  'decent-json': importDecentJson,
+  'decent-tcl': importDecentTcl,
+  'meticulous': importMeticulous,
+  'gaggiuino': importGaggiuino,
+};
+
+const EXPORTERS: { [F in ProfileFormat]: (profile: any) => ExportResult } = {
+  'decent-json': exportDecentJson,
+  'decent-tcl': exportDecentTcl,
+  'meticulous': exportMeticulous,
+  'gaggiuino': exportGaggiuino,
+};
+
+/**
+ * Convert a profile in another format into a Gaggimate pro profile
+ */
+export function importProfile(format: ProfileFormat, content: string): ImportResult {
+  try {
+    return IMPORTERS[format](content);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to import ${format} profile: ${reason}`);
+  }
+}
+
+/**
+ * Convert a Gaggimate profile into another format
+ */
+export function exportProfile(format: ProfileFormat, profile: any): ExportResult {
+  return EXPORTERS[format](profile);
+}
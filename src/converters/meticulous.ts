@@ -0,0 +1,209 @@
+// Meticulous profile JSON: stages with dynamics curves, exit triggers and limits
+
+import {
+  ConvertedProfile,
+  ExportResult,
+  ImportResult,
+  addFinalWeightTarget,
+  exportPump,
+  guessPhaseType,
+  importPump,
+  importTransition,
+  toNumber,
+} from './types.js';
+import { round } from '../utils/math.js';
+
+const DEFAULT_STAGE_SECONDS = 30;
+
+// Resolve "$key" references against the profile's variables
+function resolveValue(value: any, variables: Map<string, number>, unsupported: string[], context: string): number {
+  if (typeof value === 'string' && value.startsWith('$')) {
+    const resolved = variables.get(value.slice(1));
+    if (resolved === undefined) {
+      unsupported.push(`${context}: unknown variable ${value}`);
+      return 0;
+    }
+    return resolved;
+  }
+  return toNumber(value);
+}
+
+export function importMeticulous(content: string): ImportResult {
+  const data = JSON.parse(content);
+  if (!Array.isArray(data.stages)) {
+    throw new Error('Meticulous profile has no stages array');
+  }
+
+  const unsupported: string[] = [];
+  const variables = new Map<string, number>();
+  for (const variable of Array.isArray(data.variables) ? data.variables : []) {
+    if (variable && variable.key !== undefined) {
+      variables.set(String(variable.key), toNumber(variable.value));
+    }
+  }
+
+  const temperature = toNumber(data.temperature, 93);
+
+  const phases = data.stages.map((stage: any, i: number) => {
+    const label = String(stage.name || `Stage ${i + 1}`);
+    const dynamics = stage.dynamics || {};
+    const points: number[][] = (Array.isArray(dynamics.points) ? dynamics.points : [])
+      .map((point: any[]) => [
+        resolveValue(point[0], variables, unsupported, label),
+        resolveValue(point[1], variables, unsupported, label),
+      ]);
+
+    let pumpTarget: 'pressure' | 'flow' = stage.type === 'flow' ? 'flow' : 'pressure';
+    let setpoint = points.length > 0 ? points[points.length - 1][1] : 0;
+    if (stage.type === 'power') {
+      unsupported.push(`${label}: power stage approximated as ${round(setpoint * 0.09, 1)} bar pressure`);
+      pumpTarget = 'pressure';
+      setpoint = round(setpoint * 0.09, 1);
+    }
+    if (points.length > 2) {
+      unsupported.push(`${label}: ${points.length}-point curve reduced to a single ramp to its final value`);
+    }
+    if (dynamics.over && dynamics.over !== 'time') {
+      unsupported.push(`${label}: curve over ${dynamics.over} treated as over time`);
+    }
+
+    const targets: any[] = [];
+    let duration = 0;
+    for (const trigger of Array.isArray(stage.exit_triggers) ? stage.exit_triggers : []) {
+      const value = resolveValue(trigger.value, variables, unsupported, label);
+      const operator = trigger.comparison === '<=' ? 'lte' : 'gte';
+      if (trigger.relative) {
+        unsupported.push(`${label}: relative ${trigger.type} trigger treated as absolute`);
+      }
+      switch (trigger.type) {
+        case 'time':
+          duration = duration > 0 ? Math.min(duration, value) : value;
+          break;
+        case 'weight':
+          targets.push({ type: 'volumetric', operator, value });
+          break;
+        case 'pressure':
+        case 'flow':
+          targets.push({ type: trigger.type, operator, value });
+          break;
+        default:
+          unsupported.push(`${label}: ${trigger.type} exit trigger dropped`);
+      }
+    }
+
+    const rampSeconds = points.length > 1 ? points[points.length - 1][0] - points[0][0] : 0;
+    if (duration <= 0) {
+      duration = dynamics.over === 'time' || !dynamics.over ? Math.max(rampSeconds, 0) : 0;
+    }
+    if (duration <= 0) {
+      duration = DEFAULT_STAGE_SECONDS;
+      unsupported.push(`${label}: no time limit, using ${DEFAULT_STAGE_SECONDS}s`);
+    }
+
+    let pressureLimit = 0;
+    let flowLimit = 0;
+    for (const limit of Array.isArray(stage.limits) ? stage.limits : []) {
+      const value = resolveValue(limit.value, variables, unsupported, label);
+      if (limit.type === 'pressure') pressureLimit = value;
+      else if (limit.type === 'flow') flowLimit = value;
+    }
+
+    if (dynamics.interpolation === 'curve') {
+      unsupported.push(`${label}: curve interpolation approximated as linear`);
+    }
+
+    return {
+      name: label,
+      phase: guessPhaseType(label, i, pumpTarget === 'pressure' ? setpoint : 0),
+      valve: 1,
+      duration: round(duration, 1),
+      temperature,
+      transition: rampSeconds > 0 && dynamics.interpolation !== 'none'
+        ? importTransition('linear', Math.min(rampSeconds, duration), label, unsupported)
+        : { type: 'instant', duration: 0, adaptive: true },
+      pump: importPump(pumpTarget, setpoint, pumpTarget === 'flow' ? pressureLimit : flowLimit),
+      targets,
+    };
+  });
+
+  addFinalWeightTarget(phases, toNumber(data.final_weight), unsupported);
+
+  const profile: ConvertedProfile = {
+    description: `Imported from Meticulous profile '${data.name || 'unnamed'}'${data.author ? ` by ${data.author}` : ''}`,
+    temperature,
+    phases,
+  };
+  return { name: String(data.name || 'Meticulous profile'), profile, unsupported };
+}
+
+export function exportMeticulous(profile: any): ExportResult {
+  const unsupported: string[] = [];
+  const phases: any[] = Array.isArray(profile.phases) ? profile.phases : [];
+
+  const stages = phases.map((phase, i) => {
+    const label = phase.name || `Phase ${i + 1}`;
+    const pump = exportPump(phase);
+    const transition = phase.transition || { type: 'instant', duration: 0 };
+    const setpoint = pump.target === 'flow' ? pump.flow : pump.pressure;
+
+    if (phase.valve === 0) {
+      unsupported.push(`${label}: closed valve phases have no Meticulous equivalent`);
+    }
+    if (phase.temperature && phase.temperature !== profile.temperature) {
+      unsupported.push(`${label}: per-phase temperature ${phase.temperature}°C dropped (Meticulous has one temperature)`);
+    }
+    if (transition.type === 'ease-in' || transition.type === 'ease-out') {
+      unsupported.push(`${label}: ${transition.type} transition exported as curve interpolation`);
+    }
+
+    // Ramp from the previous phase's setpoint, like the Gaggimate transition does
+    const previous = phases[i - 1]?.pump;
+    const start = previous && typeof previous === 'object'
+      ? (pump.target === 'flow' ? previous.flow : previous.pressure) || 0
+      : 0;
+    const points = transition.type !== 'instant' && transition.duration > 0
+      ? [[0, start], [transition.duration, setpoint]]
+      : [[0, setpoint]];
+
+    const exitTriggers: any[] = [{ type: 'time', value: phase.duration, relative: true, comparison: '>=' }];
+    for (const target of Array.isArray(phase.targets) ? phase.targets : []) {
+      const comparison = target.operator === 'lte' ? '<=' : '>=';
+      switch (target.type) {
+        case 'volumetric':
+          exitTriggers.push({ type: 'weight', value: target.value, relative: false, comparison });
+          break;
+        case 'pressure':
+        case 'flow':
+          exitTriggers.push({ type: target.type, value: target.value, relative: false, comparison });
+          break;
+        default:
+          unsupported.push(`${label}: ${target.type} stop condition dropped`);
+      }
+    }
+
+    const limit = pump.target === 'flow' ? pump.pressure : pump.flow;
+    return {
+      name: label,
+      key: `${pump.target}_${i + 1}`,
+      type: pump.target === 'flow' ? 'flow' : 'pressure',
+      dynamics: {
+        points,
+        over: 'time',
+        interpolation: transition.type === 'instant' ? 'none' : transition.type === 'linear' ? 'linear' : 'curve',
+      },
+      exit_triggers: exitTriggers,
+      limits: limit > 0 ? [{ type: pump.target === 'flow' ? 'pressure' : 'flow', value: limit }] : [],
+    };
+  });
+
+  const data = {
+    name: profile.label || 'Gaggimate profile',
+    author: 'Gaggimate',
+    temperature: profile.temperature,
+    final_weight: 0,
+    variables: [],
+    stages,
+  };
+
+  return { content: JSON.stringify(data, null, 2), unsupported };
+}
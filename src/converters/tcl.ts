@@ -0,0 +1,74 @@
+// Minimal Tcl list reader/writer for Decent .tcl shot profiles
+// Profiles are flat "key value" lists where values may be brace-quoted nested lists
+
+/**
+ * Split a Tcl list into its top-level elements, stripping one level of braces
+ */
+export function parseTclList(input: string): string[] {
+  const items: string[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    while (i < input.length && /\s/.test(input[i])) i++;
+    if (i >= input.length) break;
+
+    if (input[i] === '{') {
+      let depth = 1;
+      const start = ++i;
+      while (i < input.length && depth > 0) {
+        if (input[i] === '\\') {
+          i += 2;
+          continue;
+        }
+        if (input[i] === '{') depth++;
+        else if (input[i] === '}') depth--;
+        i++;
+      }
+      if (depth > 0) {
+        throw new Error('Unbalanced braces in Tcl list');
+      }
+      items.push(input.slice(start, i - 1));
+    } else if (input[i] === '"') {
+      const start = ++i;
+      while (i < input.length && input[i] !== '"') {
+        if (input[i] === '\\') i++;
+        i++;
+      }
+      items.push(input.slice(start, i));
+      i++;
+    } else {
+      const start = i;
+      while (i < input.length && !/\s/.test(input[i])) i++;
+      items.push(input.slice(start, i));
+    }
+  }
+
+  return items;
+}
+
+/**
+ * Read a Tcl key/value list into an object
+ */
+export function parseTclDict(input: string): { [key: string]: string } {
+  const items = parseTclList(input);
+  const dict: { [key: string]: string } = {};
+  for (let i = 0; i + 1 < items.length; i += 2) {
+    dict[items[i]] = items[i + 1];
+  }
+  return dict;
+}
+
+// Quote a value as a single Tcl list element
+export function quoteTcl(value: string | number): string {
+  const text = String(value);
+  if (text.length > 0 && !/[\s{}"\\]/.test(text)) {
+    return text;
+  }
+  return `{${text}}`;
+}
+
+export function formatTclDict(dict: { [key: string]: string | number }): string {
+  return Object.entries(dict)
+    .map(([key, value]) => `${key} ${quoteTcl(value)}`)
+    .join(' ');
+}
@@ -0,0 +1,87 @@
+// Shared types for converting between Gaggimate pro profiles and other espresso formats
+
+import { PROFILE_LIMITS, PUMP_OFF } from '../schemas/profile.js';
+import { round } from '../utils/math.js';
+
+export const PROFILE_FORMATS = ['decent-json', 'decent-tcl', 'meticulous', 'gaggiuino'] as const;
+
+export type ProfileFormat = typeof PROFILE_FORMATS[number];
+
+// Gaggimate pro profile without device-managed fields (id, label, flags)
+export interface ConvertedProfile {
+  description: string;
+  temperature: number;
+  phases: any[];
+}
+
+export interface ImportResult {
+  name: string;
+  profile: ConvertedProfile;
+  unsupported: string[];
+}
+
+export interface ExportResult {
+  content: string;
+  unsupported: string[];
+}
+
+// Phase names that usually mean "preinfusion" in community recipes
+const PREINFUSION_NAME = /pre[- ]?infus|pre[- ]?wet|soak|bloom|fill|wet/i;
+
+export function guessPhaseType(name: string, index: number, pressure: number): 'preinfusion' | 'brew' {
+  if (PREINFUSION_NAME.test(name)) return 'preinfusion';
+  return index === 0 && pressure > 0 && pressure < 4 ? 'preinfusion' : 'brew';
+}
+
+/**
+ * Ramp transition for an imported step. Gaggimate caps transitions, so longer ramps are
+ * shortened and reported in unsupported.
+ */
+export function importTransition(type: string, seconds: number, label: string, unsupported: string[]): any {
+  const max = PROFILE_LIMITS.maxTransitionDuration;
+  if (seconds > max) {
+    unsupported.push(`${label}: ${round(seconds, 1)}s ramp shortened to ${max}s, the longest transition Gaggimate accepts`);
+  }
+  return { type, duration: round(Math.min(seconds, max), 1), adaptive: true };
+}
+
+/**
+ * Gaggimate pump settings for an imported step. A zero setpoint without a limit is a soak.
+ */
+export function importPump(target: 'pressure' | 'flow', setpoint: number, limit: number): any {
+  if (setpoint <= 0 && limit <= 0) {
+    return PUMP_OFF;
+  }
+  return target === 'flow'
+    ? { target: 'flow', flow: setpoint, pressure: limit }
+    : { target: 'pressure', pressure: setpoint, flow: limit };
+}
+
+/**
+ * Pump settings of a Gaggimate phase for export: a soak (pump: 0) is 0 bar, a missing pump full pressure
+ */
+export function exportPump(phase: any): { target: string; pressure: number; flow: number } {
+  if (phase.pump && typeof phase.pump === 'object') {
+    return phase.pump;
+  }
+  return { target: 'pressure', pressure: phase.pump === PUMP_OFF ? 0 : 9, flow: 0 };
+}
+
+export function toNumber(value: any, fallback: number = 0): number {
+  const parsed = typeof value === 'number' ? value : parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+/**
+ * Add a weight stop condition to the last phase (Gaggimate has no profile-wide targets)
+ */
+export function addFinalWeightTarget(phases: any[], weight: number, unsupported: string[]): void {
+  if (!(weight > 0) || phases.length === 0) return;
+  const last = phases[phases.length - 1];
+  if (!last.targets.some((target: any) => target.type === 'volumetric')) {
+    last.targets.push({ type: 'volumetric', operator: 'gte', value: weight });
+  }
+  if (phases.length > 1) {
+    unsupported.push(`Profile-wide target weight ${weight} g applied to the last phase only`);
+  }
+}
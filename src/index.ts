@@ -1,407 +1,389 @@
 #!/usr/bin/env node
+import os from "os";
+import path from "path";
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import {
   CallToolRequestSchema,
+  ListResourcesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
   Tool,
 } from "@modelcontextprotocol/sdk/types.js";
-import WebSocket from "ws";
-import { parseBinaryIndex, indexToShotList } from "./parsers/binaryIndex.js";
+import { parseBinaryIndex, indexToShotList, IndexData } from "./parsers/binaryIndex.js";
 import { parseBinaryShot } from "./parsers/binaryShot.js";
-import { transformShotForAI } from "./transformers/shotTransformer.js";
+import { transformShotForAI, ShotProfileRevision, TransformedShot } from "./transformers/shotTransformer.js";
+import { compareShots, ComparedShotInput, ALIGNMENT_MODES, AlignmentMode } from "./transformers/shotComparison.js";
+import { calculateShotTrends, TrendShotInput, TREND_METRICS } from "./transformers/shotTrends.js";
+import { normalizeShotNotes } from "./transformers/notesTransformer.js";
+import { GaggimateClient } from "./client/gaggimateClient.js";
+import { StatusMonitor } from "./status/statusMonitor.js";
+import { LiveShotRecorder } from "./status/liveShotRecorder.js";
+import { ShotNotesUpdateSchema, BALANCE_TASTE_VALUES, buildDeviceShotNotes } from "./schemas/shotNotes.js";
+import { formatZodIssues } from "./schemas/issues.js";
+import {
+  ShotHistoryQuerySchema,
+  ShotHistoryQuery,
+  ShotHistoryPage,
+  ShotTrendsQuerySchema,
+  SHOT_SORT_FIELDS,
+  SORT_ORDERS,
+  MAX_TREND_SCAN,
+  MAX_TREND_SHOTS,
+  queryShotList,
+} from "./schemas/shotHistoryQuery.js";
+import { AIProfileInputSchema, ProProfileSchema, validateDeviceProfile } from "./schemas/profile.js";
+import { PatchOperationsSchema, PATCH_OPERATIONS, applyProfilePatch } from "./profiles/profilePatch.js";
+import { expandSimpleProfile, collapseToSimpleProfile } from "./profiles/simpleProfile.js";
+import { simulateProfile, overlayShot, DEFAULT_PREVIEW_INTERVAL_MS } from "./profiles/profileSimulator.js";
+import { PROFILE_FORMATS, ProfileFormat, importProfile, exportProfile } from "./converters/index.js";
+import {
+  aiProfileLabel,
+  aiSlotLabel,
+  isAIProfile,
+  loadProfileAccessConfig,
+  canManageProfile,
+  canDeleteProfile,
+} from "./profiles/profileAccess.js";
+import { loadSafetyPolicy, evaluateSafety, SafetyVerdict } from "./profiles/safetyPolicy.js";
+import { diffProfiles } from "./profiles/profileDiff.js";
+import { hashProfile } from "./profiles/profileHash.js";
+import { ProfileVersionStore, ProfileVersion } from "./store/profileVersionStore.js";
+import { ProfileRevision, ProfileRevisionStore } from "./store/profileRevisionStore.js";
+import { ShotArchive, ShotArchiveStatus, isShotId } from "./store/shotArchive.js";
+import { BeanStore, Bean, ShotAssociation } from "./store/beanStore.js";
+import { daysOffRoast } from "./utils/dates.js";
+import { BeanInputSchema, BeanUpdateSchema, ShotBeanAssignmentSchema, ROAST_LEVELS } from "./schemas/bean.js";
+import { ShotData } from "./parsers/binaryShot.js";
 
 // Configuration from environment
 const GAGGIMATE_HOST = process.env.GAGGIMATE_HOST || "localhost";
 const GAGGIMATE_PROTOCOL = process.env.GAGGIMATE_PROTOCOL || "ws";
 const HTTP_PROTOCOL = GAGGIMATE_PROTOCOL === 'wss' ? 'https' : 'http';
+const DATA_DIR = process.env.GAGGIMATE_DATA_DIR || path.join(os.homedir(), ".gaggimate-mcp");
+const ARCHIVE_DIR = process.env.GAGGIMATE_ARCHIVE_DIR || path.join(DATA_DIR, "shots");
 const REQUEST_TIMEOUT = 5000; // 5 seconds timeout
+const DEFAULT_SHOT_WAIT_TIMEOUT = 120; // seconds
+const MAX_SHOT_WAIT_TIMEOUT = 600; // seconds
+const FINALIZE_WAIT_TIMEOUT = 15000; // time for the device to write the .slog
+const FINALIZE_POLL_INTERVAL = 1000;
+const MAX_COMPARED_SHOTS = 6;
+const PROGRESS_INTERVAL = 1000;
+const PROFILE_ACCESS = loadProfileAccessConfig();
+const SAFETY_POLICY = loadSafetyPolicy();
 
-// Generate unique request ID
-function generateRequestId(): string {
-  return `mcp-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-}
+// Shared connection to the Gaggimate WebSocket API
+const gaggimate = new GaggimateClient({
+  url: `${GAGGIMATE_PROTOCOL}://${GAGGIMATE_HOST}/ws`,
+  requestTimeout: REQUEST_TIMEOUT,
+});
 
-// Fetch profiles from Gaggimate WebSocket API
-async function fetchProfilesFromGaggimate(): Promise<any[]> {
-  return new Promise((resolve, reject) => {
-    const WEBSOCKET_URL = `${GAGGIMATE_PROTOCOL}://${GAGGIMATE_HOST}/ws`;
-    const ws = new WebSocket(WEBSOCKET_URL);
-    const requestId = generateRequestId();
-    let timeoutHandle: NodeJS.Timeout | null = null;
-    let resolved = false;
-
-    // Cleanup function to ensure proper closure
-    const cleanup = () => {
-      if (timeoutHandle) {
-        clearTimeout(timeoutHandle);
-        timeoutHandle = null;
-      }
-      if (ws.readyState === WebSocket.OPEN || ws.readyState === WebSocket.CONNECTING) {
-        ws.close();
-      }
-    };
+// Latest evt:status from the machine, cached in the background
+const statusMonitor = new StatusMonitor(gaggimate);
 
-    // Set timeout
-    timeoutHandle = setTimeout(() => {
-      if (!resolved) {
-        resolved = true;
-        cleanup();
-        reject(new Error(`Request timeout: No response from Gaggimate at ${WEBSOCKET_URL}`));
-      }
-    }, REQUEST_TIMEOUT);
+// Live shot samples buffered from the status stream
+const liveShotRecorder = new LiveShotRecorder(statusMonitor);
 
-    ws.on("open", () => {
-      // Send profiles list request
-      const request = {
-        tp: "req:profiles:list",
-        rid: requestId,
-      };
-      ws.send(JSON.stringify(request));
-    });
+const MACHINE_STATUS_URI = "gaggimate://status";
 
-    ws.on("message", (data: WebSocket.Data) => {
-      try {
-        const response = JSON.parse(data.toString());
-        
-        // Check if this is our response
-        if (response.tp === "res:profiles:list" && response.rid === requestId) {
-          if (!resolved) {
-            resolved = true;
-            cleanup();
-            
-            if (response.error) {
-              reject(new Error(`Gaggimate API error: ${response.error}`));
-            } else {
-              resolve(response.profiles || []);
-            }
-          }
-        }
-        // Ignore other message types (like evt:status)
-      } catch (error) {
-        if (!resolved) {
-          resolved = true;
-          cleanup();
-          reject(new Error(`Failed to parse response: ${error}`));
-        }
-      }
-    });
+// Local snapshots of AI profiles taken before each save
+const profileVersions = new ProfileVersionStore(path.join(DATA_DIR, "profile-versions.json"));
 
-    ws.on("error", (error) => {
-      if (!resolved) {
-        resolved = true;
-        cleanup();
-        reject(new Error(`WebSocket error: ${error.message}`));
-      }
-    });
+// Content hashes of every profile saved to the device, used to link shots to revisions
+const profileRevisions = new ProfileRevisionStore(path.join(DATA_DIR, "profile-revisions.json"));
+const shotArchive = new ShotArchive(ARCHIVE_DIR);
+const beans = new BeanStore(path.join(DATA_DIR, "beans.json"));
 
-    ws.on("close", () => {
-      if (!resolved) {
-        resolved = true;
-        if (timeoutHandle) {
-          clearTimeout(timeoutHandle);
-        }
-        reject(new Error(`WebSocket closed unexpectedly`));
-      }
-    });
-  });
+// Fetch profiles from Gaggimate WebSocket API
+async function fetchProfilesFromGaggimate(): Promise<any[]> {
+  return gaggimate.listProfiles();
 }
 
 // Fetch a specific profile by ID from Gaggimate WebSocket API
 async function fetchProfileFromGaggimate(profileId: string): Promise<any> {
-  return new Promise((resolve, reject) => {
-    const WEBSOCKET_URL = `${GAGGIMATE_PROTOCOL}://${GAGGIMATE_HOST}/ws`;
-    const ws = new WebSocket(WEBSOCKET_URL);
-    const requestId = generateRequestId();
-    let timeoutHandle: NodeJS.Timeout | null = null;
-    let resolved = false;
-
-    // Cleanup function to ensure proper closure
-    const cleanup = () => {
-      if (timeoutHandle) {
-        clearTimeout(timeoutHandle);
-        timeoutHandle = null;
-      }
-      if (ws.readyState === WebSocket.OPEN || ws.readyState === WebSocket.CONNECTING) {
-        ws.close();
-      }
-    };
+  return gaggimate.loadProfile(profileId);
+}
+
+// Outcome of writing an AI profile through the safety policy
+interface AIProfileWriteResult {
+  saved: boolean;
+  profile: any | null;
+  profileToSave: any;
+  safety: SafetyVerdict;
+}
 
-    // Set timeout
-    timeoutHandle = setTimeout(() => {
-      if (!resolved) {
-        resolved = true;
-        cleanup();
-        reject(new Error(`Request timeout: No response from Gaggimate at ${WEBSOCKET_URL}`));
+// Update or create the AI Profile (or a named AI slot) via WebSocket API
+async function updateOrCreateAIProfile(profileData: any, slot?: string, dryRun: boolean = false): Promise<AIProfileWriteResult> {
+  const label = aiProfileLabel(slot, PROFILE_ACCESS);
+
+  // First, list profiles to find existing AI Profile
+  const profiles = await gaggimate.listProfiles();
+  const existingAIProfile = profiles.find((p: any) => p.label === label);
+  const aiProfileId: string | undefined = existingAIProfile?.id;
+
+  const profileToSave = buildAIProfile(label, profileData, aiProfileId);
+
+  return writeAIProfile(label, profileToSave, aiProfileId, "update_ai_profile", { dryRun });
+}
+
+// Build a complete pro profile from AI input, filling in defaults for omitted phase fields
+function buildAIProfile(label: string, profileData: any, profileId?: string): any {
+  return {
+    ...(profileId ? { id: profileId } : {}),
+    label,
+    type: "pro",
+    description: "AI-generated espresso profile",
+    temperature: profileData.temperature,
+    favorite: false,
+    selected: false,
+    utility: false,
+    phases: profileData.phases.map((phase: any) => ({
+      name: phase.name,
+      phase: phase.phase || "brew",
+      valve: phase.valve ?? 1,
+      duration: phase.duration,
+      temperature: phase.temperature || profileData.temperature,
+      transition: phase.transition || {
+        type: "linear",
+        duration: Math.min(phase.duration, 2),
+        adaptive: true,
+      },
+      pump: phase.pump ?? {
+        target: "pressure",
+        pressure: 9,
+        flow: 0,
+      },
+      targets: phase.targets || [],
+    })),
+  };
+}
+
+// Check an AI profile against the safety policy, snapshot the current revision, then overwrite it on the device
+async function writeAIProfile(
+  label: string,
+  profileToSave: any,
+  existingId: string | undefined,
+  reason: string,
+  options: { dryRun?: boolean; checkDeltas?: boolean } = {},
+): Promise<AIProfileWriteResult> {
+  const previous = existingId ? await gaggimate.loadProfile(existingId) : null;
+  const safety = evaluateSafety(profileToSave, options.checkDeltas === false ? null : previous, SAFETY_POLICY);
+
+  if (options.dryRun || !safety.allowed) {
+    return { saved: false, profile: null, profileToSave, safety };
+  }
+
+  if (previous) {
+    await profileVersions.addVersion(label, previous, reason);
+  }
+
+  const savedProfile = await saveProfileAndRecordRevision(profileToSave);
+  return { saved: true, profile: savedProfile, profileToSave, safety };
+}
+
+// Tool response for a write that was a dry run or rejected by the safety policy
+function unsavedProfileResponse(label: string, result: AIProfileWriteResult, extra: Record<string, any> = {}) {
+  const payload = result.safety.allowed
+    ? {
+        dry_run: true,
+        message: `Dry run: ${label} was not saved`,
+        profile_to_save: result.profileToSave,
+        ...extra,
+        safety: result.safety,
       }
-    }, REQUEST_TIMEOUT);
-
-    ws.on("open", () => {
-      // Send profile load request
-      const request = {
-        tp: "req:profiles:load",
-        rid: requestId,
-        id: profileId,
+    : {
+        error: true,
+        message: `${label} violates the safety policy and was not saved`,
+        code: "SAFETY_VIOLATION",
+        profile_to_save: result.profileToSave,
+        ...extra,
+        safety: result.safety,
       };
-      ws.send(JSON.stringify(request));
-    });
 
-    ws.on("message", (data: WebSocket.Data) => {
-      try {
-        const response = JSON.parse(data.toString());
-        
-        // Check if this is our response
-        if (response.tp === "res:profiles:load" && response.rid === requestId) {
-          if (!resolved) {
-            resolved = true;
-            cleanup();
-            
-            if (response.error) {
-              reject(new Error(`Gaggimate API error: ${response.error}`));
-            } else {
-              resolve(response.profile || null);
-            }
-          }
-        }
-        // Ignore other message types (like evt:status)
-      } catch (error) {
-        if (!resolved) {
-          resolved = true;
-          cleanup();
-          reject(new Error(`Failed to parse response: ${error}`));
-        }
-      }
-    });
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(payload),
+      },
+    ],
+  };
+}
 
-    ws.on("error", (error) => {
-      if (!resolved) {
-        resolved = true;
-        cleanup();
-        reject(new Error(`WebSocket error: ${error.message}`));
-      }
-    });
+// Save a profile and remember which recipe is now live under its id
+async function saveProfileAndRecordRevision(profileToSave: any): Promise<any> {
+  const savedProfile = await gaggimate.saveProfile(profileToSave);
+  const profileId = savedProfile?.id ?? profileToSave.id;
 
-    ws.on("close", () => {
-      if (!resolved) {
-        resolved = true;
-        if (timeoutHandle) {
-          clearTimeout(timeoutHandle);
-        }
-        reject(new Error(`WebSocket closed unexpectedly`));
-      }
-    });
-  });
+  if (profileId) {
+    try {
+      await profileRevisions.recordRevision({ ...profileToSave, id: profileId });
+    } catch (error) {
+      // The profile is already on the device; losing the link is not worth failing the save
+      console.error("Failed to record profile revision:", error);
+    }
+  }
+
+  return savedProfile;
 }
 
-// Update or create the AI Profile via WebSocket API
-async function updateOrCreateAIProfile(profileData: any): Promise<any> {
-  return new Promise((resolve, reject) => {
-    const WEBSOCKET_URL = `${GAGGIMATE_PROTOCOL}://${GAGGIMATE_HOST}/ws`;
-    const ws = new WebSocket(WEBSOCKET_URL);
-    const listRequestId = generateRequestId();
-    const saveRequestId = generateRequestId();
-    let timeoutHandle: NodeJS.Timeout | null = null;
-    let resolved = false;
-    let aiProfileId: string | undefined;
-
-    // Cleanup function
-    const cleanup = () => {
-      if (timeoutHandle) {
-        clearTimeout(timeoutHandle);
-        timeoutHandle = null;
-      }
-      if (ws.readyState === WebSocket.OPEN || ws.readyState === WebSocket.CONNECTING) {
-        ws.close();
-      }
-    };
+// Find the recorded profile revision that was active when a shot was pulled
+async function findShotProfileRevision(shot: ShotData): Promise<ProfileRevision | null> {
+  if (!shot.profileId) {
+    return null;
+  }
+  try {
+    return await profileRevisions.findRevisionAt(shot.profileId, shot.timestamp);
+  } catch {
+    return null;
+  }
+}
 
-    // Set timeout
-    timeoutHandle = setTimeout(() => {
-      if (!resolved) {
-        resolved = true;
-        cleanup();
-        reject(new Error(`Request timeout: No response from Gaggimate at ${WEBSOCKET_URL}`));
-      }
-    }, REQUEST_TIMEOUT);
+// The profile that brewed a shot, for checks against its targets
+interface ResolvedShotProfile {
+  revision: ShotProfileRevision | null;
+  profile: any | null;
+}
 
-    ws.on("open", () => {
-      // First, list profiles to find existing AI Profile
-      const listRequest = {
-        tp: "req:profiles:list",
-        rid: listRequestId,
-      };
-      ws.send(JSON.stringify(listRequest));
-    });
+// Prefer the revision recorded when the shot was brewed. The device's current profile is
+// only used when it still has the recorded hash, or when no revision was recorded at all
+// (profiles never saved through this server). Pass a cache to load each current profile once.
+async function resolveShotProfile(shot: ShotData, currentProfiles?: Map<string, Promise<any>>): Promise<ResolvedShotProfile> {
+  const recorded = await findShotProfileRevision(shot);
+  const revision = recorded ? { hash: recorded.hash, label: recorded.label, saved_at: recorded.saved_at } : null;
+  if (recorded?.profile) {
+    return { revision, profile: recorded.profile };
+  }
+  if (!shot.profileId) {
+    return { revision, profile: null };
+  }
+  // Saved through this server only after the shot: what brewed it is unknown
+  const laterRevisions = recorded ? [] : await profileRevisions.listRevisions(shot.profileId).catch(() => []);
+  if (laterRevisions.length > 0) {
+    return { revision, profile: null };
+  }
 
-    ws.on("message", (data: WebSocket.Data) => {
-      try {
-        const response = JSON.parse(data.toString());
-        
-        // Handle profile list response
-        if (response.tp === "res:profiles:list" && response.rid === listRequestId) {
-          // Find existing AI Profile
-          const profiles = response.profiles || [];
-          const existingAIProfile = profiles.find((p: any) => p.label === "AI Profile");
-          
-          if (existingAIProfile) {
-            aiProfileId = existingAIProfile.id;
-          }
-          
-          // Build complete profile object
-          const profileToSave = {
-            ...(aiProfileId ? { id: aiProfileId } : {}),
-            label: "AI Profile",
-            type: "pro",
-            description: "AI-generated espresso profile",
-            temperature: profileData.temperature,
-            favorite: false,
-            selected: false,
-            utility: false,
-            phases: profileData.phases.map((phase: any) => ({
-              name: phase.name,
-              phase: phase.phase || "brew",
-              valve: 1,
-              duration: phase.duration,
-              temperature: phase.temperature || profileData.temperature,
-              transition: phase.transition || {
-                type: "linear",
-                duration: Math.min(phase.duration, 2),
-                adaptive: true,
-              },
-              pump: phase.pump || {
-                target: "pressure",
-                pressure: 9,
-                flow: 0,
-              },
-              targets: phase.targets || [],
-            })),
-          };
-          
-          // Send save request
-          const saveRequest = {
-            tp: "req:profiles:save",
-            rid: saveRequestId,
-            profile: profileToSave,
-          };
-          ws.send(JSON.stringify(saveRequest));
-        }
-        
-        // Handle save response
-        if (response.tp === "res:profiles:save" && response.rid === saveRequestId) {
-          if (!resolved) {
-            resolved = true;
-            cleanup();
-            
-            if (response.error) {
-              reject(new Error(`Failed to save AI Profile: ${response.error}`));
-            } else {
-              resolve(response.profile || { success: true });
-            }
-          }
-        }
-      } catch (error) {
-        if (!resolved) {
-          resolved = true;
-          cleanup();
-          reject(new Error(`Failed to parse response: ${error}`));
-        }
-      }
-    });
+  let loading = currentProfiles?.get(shot.profileId);
+  if (!loading) {
+    loading = fetchProfileFromGaggimate(shot.profileId).catch(() => null);
+    currentProfiles?.set(shot.profileId, loading);
+  }
+  let current = await loading;
+  if (current && revision && hashProfile(current) !== revision.hash) {
+    current = null;
+  }
+  return { revision, profile: current };
+}
 
-    ws.on("error", (error) => {
-      if (!resolved) {
-        resolved = true;
-        cleanup();
-        reject(new Error(`WebSocket error: ${error.message}`));
-      }
-    });
+// Full analysis of a history shot, with its profile revision and the profile that brewed it.
+// Callers that also need the profile resolve it first and pass it in.
+async function analyzeShot(shot: ShotData, includeFullCurve: boolean, notes?: any, resolved?: ResolvedShotProfile): Promise<TransformedShot> {
+  const { revision, profile } = resolved ?? await resolveShotProfile(shot);
+  return transformShotForAI(shot, includeFullCurve, { notes, profileRevision: revision, profile });
+}
 
-    ws.on("close", () => {
-      if (!resolved) {
-        resolved = true;
-        if (timeoutHandle) {
-          clearTimeout(timeoutHandle);
-        }
-        reject(new Error(`WebSocket closed unexpectedly`));
-      }
-    });
+// Bean for listings: age and usage, with only the latest shots
+function summarizeBean(bean: Bean) {
+  const { shots, ...rest } = bean;
+  const doses = shots.map(shot => shot.dose_g).filter((dose): dose is number => dose !== null);
+  const averageDose = doses.length > 0 ? doses.reduce((a, b) => a + b, 0) / doses.length : null;
+  const profiles: { [name: string]: number } = {};
+  for (const shot of shots) {
+    profiles[shot.profile_name] = (profiles[shot.profile_name] || 0) + 1;
+  }
+  return {
+    ...rest,
+    days_off_roast: daysOffRoast(bean.roast_date, Date.now() / 1000),
+    shot_count: shots.length,
+    average_dose_g: averageDose !== null ? Math.round(averageDose * 10) / 10 : null,
+    shots_left_estimate: averageDose && bean.remaining_g !== null ? Math.floor(bean.remaining_g / averageDose) : null,
+    profiles_used: profiles,
+    recent_shots: shots.slice(-5),
+  };
+}
+
+// Record a shot against a registered bean, taking the dose from the shot notes when not given
+async function associateShotWithBean(shot: ShotData, beanId: string, notes: any, dose?: number): Promise<ShotAssociation | null> {
+  const notedDose = normalizeShotNotes(notes, shot.timestamp)?.dose_in_g ?? null;
+  return beans.associateShot(beanId, {
+    shotId: shot.id,
+    dose: dose ?? notedDose,
+    timestamp: shot.timestamp,
+    profileId: shot.profileId,
+    profileName: shot.profileName,
   });
 }
 
-// Fetch shot notes from Gaggimate WebSocket API
-async function fetchShotNotesFromGaggimate(shotId: string): Promise<any | null> {
-  return new Promise((resolve) => {
-    const WEBSOCKET_URL = `${GAGGIMATE_PROTOCOL}://${GAGGIMATE_HOST}/ws`;
-    const ws = new WebSocket(WEBSOCKET_URL);
-    const requestId = generateRequestId();
-    let timeoutHandle: NodeJS.Timeout | null = null;
-    let resolved = false;
-
-    const cleanup = () => {
-      if (timeoutHandle) {
-        clearTimeout(timeoutHandle);
-        timeoutHandle = null;
-      }
-      if (ws.readyState === WebSocket.OPEN || ws.readyState === WebSocket.CONNECTING) {
-        ws.close();
-      }
-    };
+// Attach schema problems found in a device profile so the model does not copy them
+function withValidationIssues(profile: any): any {
+  const issues = validateDeviceProfile(profile);
+  return issues.length > 0 ? { ...profile, validation_issues: issues } : profile;
+}
 
-    // Shorter timeout for notes - don't block the main request
-    timeoutHandle = setTimeout(() => {
-      if (!resolved) {
-        resolved = true;
-        cleanup();
-        resolve(null); // Return null on timeout, don't fail the whole request
-      }
-    }, REQUEST_TIMEOUT);
+// Compact description of a stored version for listings
+function summarizeProfileVersion(version: ProfileVersion) {
+  const phases = Array.isArray(version.profile?.phases) ? version.profile.phases : [];
+  return {
+    version: version.version,
+    saved_at: version.saved_at,
+    replaced_by: version.reason,
+    temperature: version.profile?.temperature ?? null,
+    phase_count: phases.length,
+    phases: phases.map((phase: any) => phase.name),
+    total_duration_seconds: phases.reduce((total: number, phase: any) => total + (phase.duration || 0), 0),
+  };
+}
 
-    ws.on("open", () => {
-      const request = {
-        tp: "req:history:notes:get",
-        rid: requestId,
-        id: shotId, // Use unpadded ID
-      };
-      ws.send(JSON.stringify(request));
-    });
+// Copy an existing profile into a new AI-owned profile, through the same safety check as other AI writes
+async function cloneProfileToAISlot(sourceProfileId: string, label: string, dryRun: boolean = false): Promise<AIProfileWriteResult | null> {
+  const source = await gaggimate.loadProfile(sourceProfileId);
+  if (!source) {
+    return null;
+  }
 
-    ws.on("message", (data: WebSocket.Data) => {
-      try {
-        const response = JSON.parse(data.toString());
-        if (response.tp === "res:history:notes:get" && response.rid === requestId) {
-          if (!resolved) {
-            resolved = true;
-            cleanup();
-            resolve(response.notes || null);
-          }
-        }
-      } catch (error) {
-        // Ignore parse errors for other messages (like evt:status)
-      }
-    });
+  const { id, ...rest } = source;
+  const profileToSave = {
+    ...rest,
+    label,
+    description: `Cloned from '${source.label}' for AI experimentation`,
+    favorite: false,
+    selected: false,
+  };
 
-    ws.on("error", () => {
-      if (!resolved) {
-        resolved = true;
-        cleanup();
-        resolve(null); // Return null on error, don't fail
-      }
-    });
+  return writeAIProfile(label, profileToSave, undefined, "clone_profile", { dryRun });
+}
 
-    ws.on("close", () => {
-      if (!resolved) {
-        resolved = true;
-        if (timeoutHandle) {
-          clearTimeout(timeoutHandle);
-        }
-        resolve(null);
-      }
-    });
-  });
+// Read shot notes from the device. Null means the device confirmed there are none;
+// a failed read throws, so callers merging into the notes never mistake it for "no notes".
+async function readDeviceShotNotes(shotId: string): Promise<any | null> {
+  const notes = await gaggimate.getShotNotes(shotId); // Use unpadded ID
+  if (notes) {
+    await archiveShotNotes(shotId, notes);
+  }
+  return notes;
 }
 
-// Fetch shot history from Gaggimate HTTP API
-async function fetchShotHistoryFromGaggimate(limit?: number, offset?: number): Promise<any[]> {
+// Fetch shot notes from Gaggimate WebSocket API
+async function fetchShotNotesFromGaggimate(shotId: string): Promise<any | null> {
+  try {
+    return await readDeviceShotNotes(shotId);
+  } catch {
+    // Fall back to the archived copy; return null rather than failing the whole request
+    return shotArchive.readNotes(shotId).catch(() => null);
+  }
+}
+
+// Keep the archived copy of a shot's notes current
+async function archiveShotNotes(shotId: string, notes: any): Promise<void> {
+  try {
+    await shotArchive.writeNotes(shotId, notes);
+  } catch (error) {
+    console.error("Failed to archive shot notes:", error);
+  }
+}
+
+// Fetch and parse the binary shot index from Gaggimate HTTP API
+async function fetchShotIndexFromGaggimate(): Promise<IndexData | null> {
   try {
     const url = `${HTTP_PROTOCOL}://${GAGGIMATE_HOST}/api/history/index.bin`;
     
@@ -415,38 +397,225 @@ async function fetchShotHistoryFromGaggimate(limit?: number, offset?: number): P
 
     if (!response.ok) {
       if (response.status === 404) {
-        // Index doesn't exist, return empty list
-        console.log('Shot index not found. Empty history.');
-        return [];
+        // Index doesn't exist yet
+        return null;
       }
       throw new Error(`HTTP ${response.status}: ${response.statusText}`);
     }
 
     const arrayBuffer = await response.arrayBuffer();
     const buffer = Buffer.from(arrayBuffer);
-    const indexData = parseBinaryIndex(buffer);
-    const shotList = indexToShotList(indexData);
+    return parseBinaryIndex(buffer);
+  } catch (error: any) {
+    if (error.name === 'AbortError' || error.name === 'TimeoutError') {
+      throw new Error(`Request timeout: No response from Gaggimate at ${GAGGIMATE_HOST}`);
+    }
+    throw error;
+  }
+}
+
+// Fetch shot history from Gaggimate HTTP API
+async function fetchShotHistoryFromGaggimate(query: ShotHistoryQuery): Promise<ShotHistoryPage & { offline: boolean }> {
+  const { index: indexData, offline } = await loadShotIndex();
+  if (!indexData) {
+    // Index doesn't exist, return empty list
+    console.error('Shot index not found. Empty history.');
+    return { shots: [], total_matching: 0, offline };
+  }
+
+  return { ...queryShotList(indexToShotList(indexData), query), offline };
+}
 
-    // Apply limit and offset if provided
-    let result = shotList;
-    if (offset !== undefined && offset > 0) {
-      result = result.slice(offset);
+// Device index merged into the archive, so rotated-out shots stay listed.
+// Served from the archive alone when the machine is unreachable.
+async function loadShotIndex(): Promise<{ index: IndexData | null; offline: boolean }> {
+  let deviceIndex: IndexData | null;
+  try {
+    deviceIndex = await fetchShotIndexFromGaggimate();
+  } catch (error) {
+    const archived = await shotArchive.readIndex();
+    if (!archived) {
+      throw error;
     }
-    if (limit !== undefined && limit > 0) {
-      result = result.slice(0, limit);
+    return { index: archived, offline: true };
+  }
+
+  if (!deviceIndex) {
+    return { index: await shotArchive.readIndex(), offline: false };
+  }
+  try {
+    if (await shotArchive.mergeIndex(deviceIndex)) {
+      console.error("Device shot ids restarted; the previous shot archive was moved aside");
     }
+    return { index: await shotArchive.readIndex(), offline: false };
+  } catch (error) {
+    console.error("Failed to update shot archive index:", error);
+    return { index: deviceIndex, offline: false };
+  }
+}
 
+// Outcome of mirroring the device history into the archive
+interface ShotArchiveSyncResult {
+  downloaded_shots: number;
+  downloaded_notes: number;
+  failed_shot_ids: string[];
+  archive: ShotArchiveStatus;
+}
+
+let archiveSync: Promise<ShotArchiveSyncResult> | null = null;
+
+// Mirror new shots into the archive; concurrent callers share one run
+function syncShotArchive(): Promise<ShotArchiveSyncResult> {
+  if (!archiveSync) {
+    archiveSync = runShotArchiveSync().finally(() => {
+      archiveSync = null;
+    });
+  }
+  return archiveSync;
+}
+
+async function runShotArchiveSync(): Promise<ShotArchiveSyncResult> {
+  const indexData = await fetchShotIndexFromGaggimate();
+  const result: ShotArchiveSyncResult = {
+    downloaded_shots: 0,
+    downloaded_notes: 0,
+    failed_shot_ids: [],
+    archive: await shotArchive.getStatus(),
+  };
+  if (!indexData) {
     return result;
-  } catch (error: any) {
-    if (error.name === 'AbortError') {
-      throw new Error(`Request timeout: No response from Gaggimate at ${GAGGIMATE_HOST}`);
+  }
+
+  if (await shotArchive.mergeIndex(indexData)) {
+    console.error("Device shot ids restarted; the previous shot archive was moved aside");
+    result.archive = await shotArchive.getStatus();
+  }
+
+  // Only shots at or after the last fully synced id need looking at
+  const newestId = indexData.header.nextId - 1;
+  let syncedUpTo = indexData.header.nextId;
+  const pending = indexData.entries
+    .filter(entry => entry.id >= result.archive.synced_next_id && !entry.deleted)
+    .sort((a, b) => a.id - b.id);
+
+  for (const entry of pending) {
+    const shotId = entry.id.toString();
+    // The newest shot may still be recording
+    if (entry.incomplete && entry.id === newestId) {
+      syncedUpTo = Math.min(syncedUpTo, entry.id);
+      continue;
     }
-    throw error;
+    try {
+      if (!(await shotArchive.hasShot(shotId))) {
+        const buffer = await downloadShotFile(shotId);
+        if (buffer) {
+          await shotArchive.writeShot(shotId, buffer);
+          result.downloaded_shots++;
+        }
+      }
+      if (entry.hasNotes) {
+        const notes = await gaggimate.getShotNotes(shotId);
+        if (notes) {
+          await shotArchive.writeNotes(shotId, notes);
+          result.downloaded_notes++;
+        }
+      }
+    } catch (error) {
+      console.error(`Failed to archive shot ${shotId}:`, error);
+      result.failed_shot_ids.push(shotId);
+      syncedUpTo = Math.min(syncedUpTo, entry.id);
+    }
+  }
+
+  await shotArchive.markSynced(syncedUpTo);
+
+  // Notes edited on the device after a shot was archived show up as a changed index entry
+  const deviceEntries = new Map(indexData.entries.map(entry => [entry.id, entry]));
+  const refreshed: number[] = [];
+  for (const id of await shotArchive.staleNoteIds()) {
+    const entry = deviceEntries.get(id);
+    const shotId = id.toString();
+    try {
+      if (entry?.hasNotes && !entry.deleted) {
+        const notes = await gaggimate.getShotNotes(shotId);
+        if (notes) {
+          await shotArchive.writeNotes(shotId, notes);
+          result.downloaded_notes++;
+        }
+      } else if (entry) {
+        await shotArchive.deleteNotes(shotId);
+      }
+      refreshed.push(id);
+    } catch (error) {
+      console.error(`Failed to refresh notes of shot ${shotId}:`, error);
+      result.failed_shot_ids.push(shotId);
+    }
+  }
+  await shotArchive.markNotesSynced(refreshed);
+
+  result.archive = await shotArchive.getStatus();
+  return result;
+}
+
+// Wait for the device to finalize a shot .slog after the live shot ended
+async function waitForFinalizedShotId(previousNextId: number | null, startedAt: number): Promise<string | null> {
+  const deadline = Date.now() + FINALIZE_WAIT_TIMEOUT;
+
+  while (Date.now() < deadline) {
+    try {
+      const indexData = await fetchShotIndexFromGaggimate();
+      if (indexData) {
+        const candidates = indexData.entries.filter(entry =>
+          !entry.deleted &&
+          entry.completed &&
+          (previousNextId !== null
+            ? entry.id >= previousNextId
+            : entry.timestamp >= Math.floor(startedAt / 1000) - 5)
+        );
+        if (candidates.length > 0) {
+          const newest = candidates.reduce((a, b) => (b.id > a.id ? b : a));
+          return newest.id.toString();
+        }
+      }
+    } catch {
+      // Device may be busy writing the shot, keep polling
+    }
+    await new Promise(resolve => setTimeout(resolve, FINALIZE_POLL_INTERVAL));
   }
+
+  return null;
 }
 
 // Fetch a specific shot by ID from Gaggimate HTTP API
 async function fetchShotFromGaggimate(shotId: string): Promise<any> {
+  if (!isShotId(shotId)) {
+    return null;
+  }
+  const archived = await shotArchive.readShot(shotId).catch(() => null);
+  if (archived) {
+    return parseBinaryShot(archived, shotId);
+  }
+
+  const buffer = await downloadShotFile(shotId);
+  if (!buffer) {
+    return null;
+  }
+  const shotData = parseBinaryShot(buffer, shotId);
+
+  // Finished shots never change, so keep them for when the device rotates them out
+  if (!shotData.incomplete) {
+    try {
+      await shotArchive.writeShot(shotId, buffer);
+    } catch (error) {
+      console.error("Failed to archive shot:", error);
+    }
+  }
+
+  return shotData;
+}
+
+// Download a raw .slog file from Gaggimate HTTP API
+async function downloadShotFile(shotId: string): Promise<Buffer | null> {
   try {
     // Pad ID to 6 digits with zeros to match backend filename format
     const paddedId = shotId.padStart(6, '0');
@@ -468,12 +637,9 @@ async function fetchShotFromGaggimate(shotId: string): Promise<any> {
     }
 
     const arrayBuffer = await response.arrayBuffer();
-    const buffer = Buffer.from(arrayBuffer);
-    const shotData = parseBinaryShot(buffer, shotId);
-
-    return shotData;
+    return Buffer.from(arrayBuffer);
   } catch (error: any) {
-    if (error.name === 'AbortError') {
+    if (error.name === 'AbortError' || error.name === 'TimeoutError') {
       throw new Error(`Request timeout: No response from Gaggimate at ${GAGGIMATE_HOST}`);
     }
     throw error;
@@ -489,6 +655,7 @@ const server = new Server(
   {
     capabilities: {
       tools: {},
+      resources: {},
     },
   }
 );
@@ -505,7 +672,7 @@ const TOOLS: Tool[] = [
   },
   {
     name: "get_profile",
-    description: "Get a specific brewing profile by ID from Gaggimate device",
+    description: "Get a specific brewing profile by ID from Gaggimate device. Simple profiles also include their equivalent pro phase list (expanded_pro_profile).",
     inputSchema: {
       type: "object",
       properties: {
@@ -518,76 +685,462 @@ const TOOLS: Tool[] = [
     },
   },
   {
-    name: "list_shot_history",
-    description: "List brewing history (shots) from Gaggimate device",
+    name: "list_ai_profiles",
+    description: "List the AI-owned profiles: the main 'AI Profile' and every named AI profile slot",
     inputSchema: {
       type: "object",
-      properties: {
-        limit: {
-          type: "number",
-          description: "Maximum number of shots to retrieve (optional)",
-        },
-        offset: {
-          type: "number",
-          description: "Number of shots to skip from the beginning (optional)",
-        },
-      },
+      properties: {},
     },
   },
   {
-    name: "get_shot",
-    description: "Get detailed information about a specific shot by ID, including user notes (grind setting, bean type, dose, ratio, taste). Optionally includes full curve data with all sensor samples.",
+    name: "convert_profile_type",
+    description: "Convert a profile between the simple (pump power + duration per phase) and pro (pressure/flow targets, transitions, stop conditions) representations. Returns the converted profile and notes on anything approximated or dropped. Does not write to the device; pass the phases to update_ai_profile to use them.",
     inputSchema: {
       type: "object",
       properties: {
-        shotId: {
+        profileId: {
           type: "string",
-          description: "The ID of the shot to retrieve",
+          description: "The ID of the profile to convert",
         },
-        includeFullCurve: {
-          type: "boolean",
-          description: "If true, includes all ~100 data points from the extraction curve (temperature, pressure, flow over time). Default: false (returns only 3 representative samples per phase).",
+        to: {
+          type: "string",
+          enum: ["pro", "simple"],
+          description: "Target profile type",
         },
       },
-      required: ["shotId"],
+      required: ["profileId", "to"],
     },
   },
   {
-    name: "update_ai_profile",
-    description: "Update or create the AI Profile for espresso brewing. This profile is specifically reserved for AI experimentation. Supports adaptive extraction with stop conditions (pressure, flow, weight, volume) for each phase.",
+    name: "list_shot_history",
+    description: "List brewing history (shots) from Gaggimate device. Filters by profile, date, duration, volume, rating, completion and whether notes exist, then sorts and pages the result; total_matching counts all matches before paging.",
     inputSchema: {
       type: "object",
       properties: {
-        temperature: {
+        limit: {
           type: "number",
-          description: "Target water temperature in Celsius (typically 88-96°C)",
+          description: "Maximum number of shots to retrieve (optional)",
         },
-        phases: {
-          type: "array",
-          description: "Array of brewing phases defining the extraction profile",
-          items: {
-            type: "object",
-            properties: {
-              name: {
-                type: "string",
-                description: "Phase name (e.g., 'Preinfusion', 'Extraction')",
-              },
-              phase: {
-                type: "string",
-                enum: ["preinfusion", "brew"],
-                description: "Phase type",
+        offset: {
+          type: "number",
+          description: "Number of shots to skip from the beginning (optional)",
+        },
+        profileId: {
+          type: "string",
+          description: "Only shots brewed with this profile ID",
+        },
+        profileName: {
+          type: "string",
+          description: "Only shots whose profile name contains this text (case-insensitive)",
+        },
+        from: {
+          type: ["string", "number"],
+          description: "Only shots at or after this date (YYYY-MM-DD, ISO 8601 or unix seconds)",
+        },
+        to: {
+          type: ["string", "number"],
+          description: "Only shots at or before this date; a YYYY-MM-DD date includes that whole day",
+        },
+        minDuration: {
+          type: "number",
+          description: "Minimum shot duration in seconds",
+        },
+        maxDuration: {
+          type: "number",
+          description: "Maximum shot duration in seconds",
+        },
+        minVolume: {
+          type: "number",
+          description: "Minimum yield in grams",
+        },
+        maxVolume: {
+          type: "number",
+          description: "Maximum yield in grams",
+        },
+        minRating: {
+          type: "number",
+          description: "Minimum rating (0-5); unrated shots are excluded",
+        },
+        maxRating: {
+          type: "number",
+          description: "Maximum rating (0-5); unrated shots are excluded",
+        },
+        completed: {
+          type: "boolean",
+          description: "true for completed shots only, false for incomplete shots only",
+        },
+        hasNotes: {
+          type: "boolean",
+          description: "true for shots with notes only, false for shots without notes",
+        },
+        sortBy: {
+          type: "string",
+          enum: [...SHOT_SORT_FIELDS],
+          description: "Field to sort by. Default: timestamp",
+        },
+        order: {
+          type: "string",
+          enum: [...SORT_ORDERS],
+          description: "Sort order. Default: desc (newest / largest first)",
+        },
+      },
+    },
+  },
+  {
+    name: "get_shot",
+    description: "Get detailed information about a specific shot by ID, including structured user notes (dose in/out, brew ratio, grind setting, bean, roast date, taste balance, TDS and extraction yield) and, for profiles saved through this server, the profile revision hash that brewed the shot. Includes puck resistance over time with timestamped channeling events (sudden resistance drops or flow spikes at constant pressure) and puck-prep flags, plus rule-based diagnostics (e.g. fast first drip, pressure never reached, flow runaway, stopped by duration instead of weight) with evidence and a suggested direction. Each phase reports which stop condition ended it (duration, a specific target, or the user), reconstructed from the shot's profile. The summary covers pump flow, scale flow and estimated weight alongside puck flow, with a reconciliation of pumped volume, puck volume, scale and estimated weight (puck retention, and a yield even without a scale). Optionally includes full curve data with all sensor samples.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        shotId: {
+          type: "string",
+          description: "The ID of the shot to retrieve",
+        },
+        includeFullCurve: {
+          type: "boolean",
+          description: "If true, includes all ~100 data points from the extraction curve (temperature, pressure, puck and pump flow, scale flow, scale and estimated weight over time). Default: false (returns only 3 representative samples per phase).",
+        },
+      },
+      required: ["shotId"],
+    },
+  },
+  {
+    name: "compare_shots",
+    description: "Compare two or more shots side by side. The first shot is the baseline: reports summary and per-phase deltas (duration, pressure, flow, temperature, weight gained, what ended each phase), an aligned curve, and the profile differences between the shots (recipe changes and whether they were brewed from the same profile revision).",
+    inputSchema: {
+      type: "object",
+      properties: {
+        shotIds: {
+          type: "array",
+          items: { type: "string" },
+          minItems: 2,
+          maxItems: MAX_COMPARED_SHOTS,
+          description: "Shot IDs to compare; the first one is the baseline",
+        },
+        alignBy: {
+          type: "string",
+          enum: [...ALIGNMENT_MODES],
+          description: "How to align the curves: 'phase' (same positions within matching phases), 'time' (seconds since start) or 'weight' (grams in the cup). Default: phase",
+        },
+      },
+      required: ["shotIds"],
+    },
+  },
+  {
+    name: "shot_trends",
+    description: `Rolling statistics over recent shots, per profile or per bean: yield, shot time, peak pressure, first-drip time, temperature stability (RMSE against target) and rating, each with mean, spread, direction per day and a rolling mean. Also regresses these metrics against recipe parameters that varied (temperature, phase durations, target pressure/flow, dose, grind setting, days off roast) over at least 8 shots, keeping only slopes significant at 0.05 after a Bonferroni correction (each regression reports its p_value). Reads only the numbers, not the curves, and looks at no more than ${MAX_TREND_SCAN} recent shots. Metrics: ${TREND_METRICS.join(", ")}.`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        profileId: {
+          type: "string",
+          description: "Only shots brewed with this profile ID",
+        },
+        profileName: {
+          type: "string",
+          description: "Only shots whose profile name contains this text (case-insensitive)",
+        },
+        bean: {
+          type: "string",
+          description: "Only shots whose notes name this bean (bean ID, or text contained in the bean name)",
+        },
+        from: {
+          type: ["string", "number"],
+          description: "Only shots at or after this date (YYYY-MM-DD, ISO 8601 or unix seconds), e.g. a week ago",
+        },
+        to: {
+          type: ["string", "number"],
+          description: "Only shots at or before this date; a YYYY-MM-DD date includes that whole day",
+        },
+        limit: {
+          type: "number",
+          description: `Most recent matching shots to include (2-${MAX_TREND_SHOTS}). Default: 30`,
+        },
+        window: {
+          type: "number",
+          description: "Shots per rolling mean (2-20). Default: 5",
+        },
+      },
+    },
+  },
+  {
+    name: "sync_shot_archive",
+    description: "Mirror new shots, their notes and the shot index from the device into the local archive. Runs automatically at startup; shots stay readable from the archive after the device rotates them out or while the machine is off.",
+    inputSchema: {
+      type: "object",
+      properties: {},
+    },
+  },
+  {
+    name: "get_machine_status",
+    description: "Get the live machine status from the latest status event: current/target temperature, whether the boiler is at temperature, pressure, flow, mode, selected profile and whether a shot is running.",
+    inputSchema: {
+      type: "object",
+      properties: {},
+    },
+  },
+  {
+    name: "wait_for_next_shot",
+    description: "Wait for the shot currently being pulled (or the next one to start) to finish, recording it live from the machine status stream. Returns the live-recorded shot analysis and, once the device has written it, the finalized shot from history. Sends progress notifications while the shot runs if the client requests them.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        timeoutSeconds: {
+          type: "number",
+          description: `How long to wait for a shot to start and finish, in seconds (default: ${DEFAULT_SHOT_WAIT_TIMEOUT}, max: ${MAX_SHOT_WAIT_TIMEOUT})`,
+        },
+        includeFullCurve: {
+          type: "boolean",
+          description: "If true, includes all recorded data points. Default: false",
+        },
+        fetchFinalizedShot: {
+          type: "boolean",
+          description: "If true, waits for the shot to appear in history and returns the finalized .slog analysis as well. Default: true",
+        },
+      },
+    },
+  },
+  {
+    name: "update_shot_notes",
+    description: "Write notes and a rating for a shot back to the Gaggimate device (dose, yield, grind setting, bean, taste balance, free-text taste notes). By default merges with the notes already stored for the shot.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        shotId: {
+          type: "string",
+          description: "The ID of the shot to annotate",
+        },
+        doseIn: {
+          type: "number",
+          description: "Dry coffee dose in grams",
+        },
+        doseOut: {
+          type: "number",
+          description: "Beverage yield in grams",
+        },
+        grindSetting: {
+          type: "string",
+          description: "Grinder setting used for the shot",
+        },
+        beanType: {
+          type: "string",
+          description: "Coffee bean name",
+        },
+        beanId: {
+          type: "string",
+          description: "Identifier of the bean (optional). A bean ID from the bean registry also associates the shot with that bean",
+        },
+        roastDate: {
+          type: "string",
+          description: "Roast date of the beans (YYYY-MM-DD)",
+        },
+        tds: {
+          type: "number",
+          description: "Measured total dissolved solids in percent (refractometer reading)",
+        },
+        balanceTaste: {
+          type: "string",
+          enum: [...BALANCE_TASTE_VALUES],
+          description: "Overall taste balance",
+        },
+        notes: {
+          type: "string",
+          description: "Free-text taste notes / feedback summary",
+        },
+        rating: {
+          type: "number",
+          description: "Shot rating from 0 (unrated) to 5",
+        },
+        merge: {
+          type: "boolean",
+          description: "If true, keep existing fields that are not provided. If the existing notes cannot be read, nothing is saved. Default: true",
+        },
+      },
+      required: ["shotId"],
+    },
+  },
+  {
+    name: "add_bean",
+    description: "Register a bag of coffee in the local bean registry. Returns its bean ID, used to associate shots and in shot notes.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: {
+          type: "string",
+          description: "Bean name, e.g. 'Ethiopia Guji Natural'",
+        },
+        roaster: {
+          type: "string",
+          description: "Roaster",
+        },
+        origin: {
+          type: "string",
+          description: "Country / region of origin",
+        },
+        process: {
+          type: "string",
+          description: "Processing method, e.g. washed, natural, honey",
+        },
+        roastLevel: {
+          type: "string",
+          enum: [...ROAST_LEVELS],
+          description: "Roast level",
+        },
+        roastDate: {
+          type: "string",
+          description: "Roast date (YYYY-MM-DD)",
+        },
+        bagWeight: {
+          type: "number",
+          description: "Bag weight in grams",
+        },
+        notes: {
+          type: "string",
+          description: "Tasting notes or anything else worth remembering about the bag",
+        },
+      },
+      required: ["name"],
+    },
+  },
+  {
+    name: "list_beans",
+    description: "List registered beans with days off roast, remaining bag weight, shot count, the profiles used and the latest shots. Use it to pick a starting profile for a new bag from similar beans (origin, process, roast level).",
+    inputSchema: {
+      type: "object",
+      properties: {
+        includeFinished: {
+          type: "boolean",
+          description: "Include bags marked as finished. Default: false",
+        },
+      },
+    },
+  },
+  {
+    name: "update_bean",
+    description: "Change a registered bean: its details, the remaining weight after weighing the bag, or mark the bag finished.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        beanId: {
+          type: "string",
+          description: "Bean ID from add_bean or list_beans",
+        },
+        name: {
+          type: "string",
+          description: "Bean name, e.g. 'Ethiopia Guji Natural'",
+        },
+        roaster: {
+          type: "string",
+          description: "Roaster",
+        },
+        origin: {
+          type: "string",
+          description: "Country / region of origin",
+        },
+        process: {
+          type: "string",
+          description: "Processing method, e.g. washed, natural, honey",
+        },
+        roastLevel: {
+          type: "string",
+          enum: [...ROAST_LEVELS],
+          description: "Roast level",
+        },
+        roastDate: {
+          type: "string",
+          description: "Roast date (YYYY-MM-DD)",
+        },
+        bagWeight: {
+          type: "number",
+          description: "Bag weight in grams; the remaining weight is recomputed from the doses of the bean's shots unless remainingWeight is also given",
+        },
+        notes: {
+          type: "string",
+          description: "Tasting notes or anything else worth remembering about the bag",
+        },
+        remainingWeight: {
+          type: "number",
+          description: "Grams left in the bag",
+        },
+        finished: {
+          type: "boolean",
+          description: "Mark the bag as finished (hidden from list_beans by default)",
+        },
+      },
+      required: ["beanId"],
+    },
+  },
+  {
+    name: "assign_shot_to_bean",
+    description: "Associate a shot with a registered bean: records its days off roast, takes the dose off the bag's remaining weight, and writes the bean (ID, name, roast date) into the shot notes on the device. Reassigning a shot gives its dose back to the previous bean. If the notes cannot be read from the device they are left unchanged (notes_saved: false).",
+    inputSchema: {
+      type: "object",
+      properties: {
+        shotId: {
+          type: "string",
+          description: "The ID of the shot",
+        },
+        beanId: {
+          type: "string",
+          description: "Bean ID from add_bean or list_beans",
+        },
+        doseIn: {
+          type: "number",
+          description: "Dose in grams. Default: the dose in the shot notes",
+        },
+      },
+      required: ["shotId", "beanId"],
+    },
+  },
+  {
+    name: "update_ai_profile",
+    description: `Update or create the AI Profile for espresso brewing. This profile is specifically reserved for AI experimentation. Changes are checked against a safety policy (pressure, flow, duration, temperature band and maximum change per update). Pass a slot name to maintain several independent AI profiles (e.g. one per bean, labelled '${PROFILE_ACCESS.aiProfilePrefix}<slot>'). Supports adaptive extraction with stop conditions (pressure, flow, weight, volume) for each phase.`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        slot: {
+          type: "string",
+          description: `Optional AI profile slot name (e.g. 'Ethiopia Guji'). Omit to update the main 'AI Profile'`,
+        },
+        dryRun: {
+          type: "boolean",
+          description: "If true, return the fully expanded profile and the safety policy verdict without writing to the machine. Default: false",
+        },
+        temperature: {
+          type: "number",
+          description: "Target water temperature in Celsius (typically 88-96°C)",
+        },
+        phases: {
+          type: "array",
+          description: "Array of brewing phases defining the extraction profile",
+          items: {
+            type: "object",
+            properties: {
+              name: {
+                type: "string",
+                description: "Phase name (e.g., 'Preinfusion', 'Extraction')",
+              },
+              phase: {
+                type: "string",
+                enum: ["preinfusion", "brew"],
+                description: "Phase type",
               },
               duration: {
                 type: "number",
-                description: "Duration in seconds",
+                description: "Duration in seconds (max 120 per phase, 180 for the whole profile)",
+              },
+              valve: {
+                type: "number",
+                enum: [0, 1],
+                description: "1 = brew valve open (default), 0 = closed",
               },
               temperature: {
                 type: "number",
                 description: "Temperature for this phase in Celsius",
               },
               pump: {
-                type: "object",
-                description: "Pump settings for this phase",
+                type: ["object", "number"],
+                description: "Pump settings for this phase, or 0 to turn the pump off for a soak / bloom phase",
                 properties: {
                   target: {
                     type: "string",
@@ -595,11 +1148,11 @@ const TOOLS: Tool[] = [
                   },
                   pressure: {
                     type: "number",
-                    description: "Pressure in bar",
+                    description: "Pressure in bar (0-12). Acts as a limit when target is flow",
                   },
                   flow: {
                     type: "number",
-                    description: "Flow rate in ml/s",
+                    description: "Flow rate in ml/s (0-10). Acts as a limit when target is pressure",
                   },
                 },
               },
@@ -640,53 +1193,1567 @@ const TOOLS: Tool[] = [
                   },
                   required: ["type", "value"],
                 },
-              },
-            },
-            required: ["name", "phase", "duration"],
-          },
-        },
-      },
-      required: ["temperature", "phases"],
-    },
-  },
-];
+              },
+            },
+            required: ["name", "phase", "duration"],
+          },
+        },
+      },
+      required: ["temperature", "phases"],
+    },
+  },
+  {
+    name: "patch_ai_profile",
+    description: "Change individual fields of the AI Profile (or a named AI slot) as loaded from the device, leaving everything else untouched. Operations are applied in order: replace, add, remove, or increment (add a number, negative to decrease). Paths are JSON Pointers into the profile; array indexes may be negative (-1 = last) or a phase name. Examples: {op:'increment', path:'/phases/1/pump/pressure', value:0.5}; {op:'add', path:'/phases/-1/targets/-', value:{type:'volumetric', operator:'gte', value:36}}; {op:'replace', path:'/temperature', value:93}.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        slot: {
+          type: "string",
+          description: "Optional AI profile slot name. Omit for the main 'AI Profile'",
+        },
+        operations: {
+          type: "array",
+          description: "Patch operations applied in order",
+          items: {
+            type: "object",
+            properties: {
+              op: {
+                type: "string",
+                enum: [...PATCH_OPERATIONS],
+              },
+              path: {
+                type: "string",
+                description: "JSON Pointer, e.g. /phases/1/pump/pressure, /phases/Extraction/duration, /phases/-1/targets/-",
+              },
+              value: {
+                description: "New value (replace/add) or amount to add (increment). Not used by remove",
+              },
+            },
+            required: ["op", "path"],
+          },
+        },
+        dryRun: {
+          type: "boolean",
+          description: "If true, return the patched profile, the list of changes and the safety verdict without writing. Default: false",
+        },
+      },
+      required: ["operations"],
+    },
+  },
+  {
+    name: "import_profile",
+    description: `Convert a profile from another espresso format (${PROFILE_FORMATS.join(", ")}) into a Gaggimate pro profile, with a report of features that could not be converted. Optionally saves it into the AI Profile or a named AI slot (subject to the safety policy).`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        format: {
+          type: "string",
+          enum: [...PROFILE_FORMATS],
+          description: "Format of the content: Decent v2 JSON, Decent .tcl, Meticulous JSON or Gaggiuino JSON",
+        },
+        content: {
+          type: "string",
+          description: "The profile file content",
+        },
+        save: {
+          type: "boolean",
+          description: "If true, write the converted profile to the AI Profile (or the given slot). Default: false (preview only)",
+        },
+        slot: {
+          type: "string",
+          description: "Optional AI profile slot name to save into. Omit for the main 'AI Profile'",
+        },
+        dryRun: {
+          type: "boolean",
+          description: "With save, return the profile and safety verdict without writing. Default: false",
+        },
+      },
+      required: ["format", "content"],
+    },
+  },
+  {
+    name: "export_profile",
+    description: `Export a Gaggimate profile to another espresso format (${PROFILE_FORMATS.join(", ")}), with a report of features that could not be converted.`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        profileId: {
+          type: "string",
+          description: "The ID of the profile to export",
+        },
+        format: {
+          type: "string",
+          enum: [...PROFILE_FORMATS],
+          description: "Target format",
+        },
+      },
+      required: ["profileId", "format"],
+    },
+  },
+  {
+    name: "preview_profile",
+    description: "Predict the target pressure, flow and temperature timeline of a profile before brewing it, sampled like a shot log. Pass phases (same shape as update_ai_profile), a profileId, or a slot for an AI profile on the device. Optionally overlay a past shot to compare predicted targets with what actually happened. Stop conditions are listed per phase but assumed not to trigger.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        temperature: {
+          type: "number",
+          description: "Target water temperature in Celsius (with phases)",
+        },
+        phases: {
+          type: "array",
+          description: "Phases to preview, same shape as update_ai_profile",
+          items: {
+            type: "object",
+          },
+        },
+        profileId: {
+          type: "string",
+          description: "Preview a profile stored on the device instead of phases",
+        },
+        slot: {
+          type: "string",
+          description: "Preview an AI profile slot on the device (empty string for the main 'AI Profile')",
+        },
+        compareShotId: {
+          type: "string",
+          description: "Optional shot ID whose actual pressure/flow/temperature/weight is overlaid on the prediction",
+        },
+        sampleIntervalMs: {
+          type: "number",
+          description: `Sample interval in milliseconds (default: the compared shot's interval, otherwise ${DEFAULT_PREVIEW_INTERVAL_MS})`,
+        },
+      },
+    },
+  },
+  {
+    name: "list_ai_profile_versions",
+    description: "List the saved revisions of the AI Profile (or a named AI slot). A revision is stored automatically before every update or rollback.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        slot: {
+          type: "string",
+          description: "Optional AI profile slot name. Omit for the main 'AI Profile'",
+        },
+      },
+    },
+  },
+  {
+    name: "diff_ai_profile_versions",
+    description: "Show which fields differ between two saved revisions of the AI Profile, or between a revision and the profile currently on the device.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        slot: {
+          type: "string",
+          description: "Optional AI profile slot name. Omit for the main 'AI Profile'",
+        },
+        fromVersion: {
+          type: "number",
+          description: "Revision number to compare from",
+        },
+        toVersion: {
+          type: "number",
+          description: "Revision number to compare to. Omit to compare against the current profile on the device",
+        },
+      },
+      required: ["fromVersion"],
+    },
+  },
+  {
+    name: "rollback_ai_profile",
+    description: "Restore the AI Profile (or a named AI slot) to a saved revision. The current profile is saved as a new revision first, so rollbacks can be undone.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        slot: {
+          type: "string",
+          description: "Optional AI profile slot name. Omit for the main 'AI Profile'",
+        },
+        version: {
+          type: "number",
+          description: "Revision number to restore",
+        },
+      },
+      required: ["version"],
+    },
+  },
+];
+
+// Opt-in tools that touch profiles other than the AI Profile
+const PROFILE_MANAGEMENT_TOOLS: Tool[] = [
+  {
+    name: "clone_profile",
+    description: `Clone any profile into a new AI-owned profile (label prefixed with '${PROFILE_ACCESS.aiProfilePrefix}') that the AI may then modify, select or delete. The source profile is not changed.`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        profileId: {
+          type: "string",
+          description: "The ID of the profile to clone",
+        },
+        name: {
+          type: "string",
+          description: `Name of the new profile (e.g. 'Ethiopia Guji'); '${PROFILE_ACCESS.aiProfilePrefix}' is prepended if missing`,
+        },
+        dryRun: {
+          type: "boolean",
+          description: "If true, return the cloned profile and safety verdict without writing. Default: false",
+        },
+      },
+      required: ["profileId", "name"],
+    },
+  },
+  {
+    name: "select_profile",
+    description: "Select a profile as the active brewing profile. Only AI-owned or allowlisted profiles can be selected.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        profileId: {
+          type: "string",
+          description: "The ID of the profile to select",
+        },
+      },
+      required: ["profileId"],
+    },
+  },
+  {
+    name: "set_profile_favorite",
+    description: "Favourite or unfavourite a profile. Only AI-owned or allowlisted profiles can be changed.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        profileId: {
+          type: "string",
+          description: "The ID of the profile",
+        },
+        favorite: {
+          type: "boolean",
+          description: "true to favourite, false to unfavourite",
+        },
+      },
+      required: ["profileId", "favorite"],
+    },
+  },
+  {
+    name: "delete_ai_profile",
+    description: "Delete a profile created by the AI. Profiles not created by the AI can never be deleted.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        profileId: {
+          type: "string",
+          description: "The ID of the AI-owned profile to delete",
+        },
+      },
+      required: ["profileId"],
+    },
+  },
+];
+
+// Handle list tools request
+server.setRequestHandler(ListToolsRequestSchema, async () => {
+  return {
+    tools: PROFILE_ACCESS.managementEnabled ? [...TOOLS, ...PROFILE_MANAGEMENT_TOOLS] : TOOLS,
+  };
+});
+
+// Handle tool calls
+server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+  const { name, arguments: args } = request.params;
+
+  try {
+    switch (name) {
+      case "list_profiles": {
+        try {
+          const profiles = await fetchProfilesFromGaggimate();
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  profiles: profiles.map(withValidationIssues),
+                  source: GAGGIMATE_HOST,
+                }),
+              },
+            ],
+          };
+        } catch (error) {
+          // Return error but still as valid response
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  profiles: [],
+                  error: error instanceof Error ? error.message : "Failed to fetch profiles",
+                  source: GAGGIMATE_HOST,
+                }),
+              },
+            ],
+          };
+        }
+      }
+
+      case "get_profile": {
+        try {
+          const profileId = args?.profileId as string;
+          if (!profileId) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify({
+                    error: true,
+                    message: "profileId is required",
+                    code: "MISSING_PARAMETER",
+                  }),
+                },
+              ],
+            };
+          }
+
+          const profile = await fetchProfileFromGaggimate(profileId);
+          if (!profile) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify({
+                    error: true,
+                    message: `Profile with ID '${profileId}' not found`,
+                    code: "PROFILE_NOT_FOUND",
+                  }),
+                },
+              ],
+            };
+          }
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  profile: withValidationIssues(profile),
+                  ...(profile.type === "simple" ? { expanded_pro_profile: expandSimpleProfile(profile) } : {}),
+                  source: GAGGIMATE_HOST,
+                }),
+              },
+            ],
+          };
+        } catch (error) {
+          // Return error but still as valid response
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  error: error instanceof Error ? error.message : "Failed to fetch profile",
+                  source: GAGGIMATE_HOST,
+                }),
+              },
+            ],
+          };
+        }
+      }
+
+      case "list_ai_profiles": {
+        try {
+          const profiles = await fetchProfilesFromGaggimate();
+          const aiProfiles = profiles.filter((p: any) => isAIProfile(p, PROFILE_ACCESS));
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  profiles: aiProfiles,
+                  slot_prefix: PROFILE_ACCESS.aiProfilePrefix,
+                  source: GAGGIMATE_HOST,
+                }),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  profiles: [],
+                  error: error instanceof Error ? error.message : "Failed to fetch AI profiles",
+                  source: GAGGIMATE_HOST,
+                }),
+              },
+            ],
+          };
+        }
+      }
+
+      case "convert_profile_type": {
+        try {
+          const profileId = args?.profileId as string;
+          const to = args?.to as string;
+          if (!profileId || (to !== "pro" && to !== "simple")) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify({
+                    error: true,
+                    message: "profileId and to ('pro' or 'simple') are required",
+                    code: "MISSING_PARAMETERS",
+                  }),
+                },
+              ],
+            };
+          }
+
+          const profile = await fetchProfileFromGaggimate(profileId);
+          if (!profile) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify({
+                    error: true,
+                    message: `Profile with ID '${profileId}' not found`,
+                    code: "PROFILE_NOT_FOUND",
+                  }),
+                },
+              ],
+            };
+          }
+
+          const currentType = profile.type === "simple" ? "simple" : "pro";
+          const converted = currentType === to
+            ? { profile, notes: [`Profile is already a ${to} profile`] }
+            : to === "pro" ? expandSimpleProfile(profile) : collapseToSimpleProfile(profile);
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  from: currentType,
+                  to,
+                  profile: converted.profile,
+                  notes: converted.notes,
+                  source: GAGGIMATE_HOST,
+                }),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  error: error instanceof Error ? error.message : "Failed to convert profile",
+                  source: GAGGIMATE_HOST,
+                }),
+              },
+            ],
+          };
+        }
+      }
+
+      case "list_shot_history": {
+        try {
+          const parsed = ShotHistoryQuerySchema.safeParse(args ?? {});
+          if (!parsed.success) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify({
+                    error: true,
+                    message: "Invalid shot history query",
+                    code: "INVALID_PARAMETERS",
+                    issues: formatZodIssues(parsed.error),
+                  }),
+                },
+              ],
+            };
+          }
+
+          const { shots, total_matching, offline } = await fetchShotHistoryFromGaggimate(parsed.data);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  shots: shots,
+                  count: shots.length,
+                  total_matching,
+                  offline,
+                  source: GAGGIMATE_HOST,
+                }),
+              },
+            ],
+          };
+        } catch (error) {
+          // Return error but still as valid response
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  shots: [],
+                  error: error instanceof Error ? error.message : "Failed to fetch shot history",
+                  source: GAGGIMATE_HOST,
+                }),
+              },
+            ],
+          };
+        }
+      }
+
+      case "get_shot": {
+        try {
+          const shotId = args?.shotId as string;
+          const includeFullCurve = args?.includeFullCurve as boolean || false;
+
+          if (!shotId) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify({
+                    error: true,
+                    message: "shotId is required",
+                    code: "MISSING_PARAMETER",
+                  }),
+                },
+              ],
+            };
+          }
+
+          // Fetch shot data and notes in parallel
+          const [shot, notes] = await Promise.all([
+            fetchShotFromGaggimate(shotId),
+            fetchShotNotesFromGaggimate(shotId),
+          ]);
+
+          if (!shot) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify({
+                    error: true,
+                    message: `Shot with ID '${shotId}' not found`,
+                    code: "SHOT_NOT_FOUND",
+                  }),
+                },
+              ],
+            };
+          }
+
+          // Transform shot data (and its notes) to AI-friendly format
+          const transformedShot = await analyzeShot(shot, includeFullCurve, notes);
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  shot: transformedShot,
+                  source: GAGGIMATE_HOST,
+                }),
+              },
+            ],
+          };
+        } catch (error) {
+          // Return error but still as valid response
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  error: error instanceof Error ? error.message : "Failed to fetch shot",
+                  source: GAGGIMATE_HOST,
+                }),
+              },
+            ],
+          };
+        }
+      }
+
+      case "shot_trends": {
+        try {
+          const parsed = ShotTrendsQuerySchema.safeParse(args ?? {});
+          if (!parsed.success) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify({
+                    error: true,
+                    message: "Invalid shot trends query",
+                    code: "INVALID_PARAMETERS",
+                    issues: formatZodIssues(parsed.error),
+                  }),
+                },
+              ],
+            };
+          }
+
+          const query = parsed.data;
+          const { index, offline } = await loadShotIndex();
+          const { shots: candidates } = index
+            ? queryShotList(indexToShotList(index), {
+                profileId: query.profileId,
+                profileName: query.profileName,
+                from: query.from,
+                to: query.to,
+                completed: true,
+                sortBy: "timestamp",
+                order: "desc",
+              })
+            : { shots: [] };
+
+          const bean = query.bean?.toLowerCase();
+          const currentProfiles = new Map<string, Promise<any>>();
+          const inputs: TrendShotInput[] = [];
+          // Archived notes are kept in sync, so the device is only asked for notes not archived yet,
+          // and not again once it failed to answer
+          let deviceReachable = !offline;
+          const readNotes = async (shotId: string): Promise<any | null> => {
+            const archived = await shotArchive.readNotes(shotId).catch(() => null);
+            if (archived || !deviceReachable) return archived;
+            try {
+              return await readDeviceShotNotes(shotId);
+            } catch {
+              deviceReachable = false;
+              return null;
+            }
+          };
+
+          let scanned = 0;
+          for (const candidate of candidates) {
+            if (inputs.length >= query.limit || scanned >= MAX_TREND_SCAN) break;
+            scanned++;
+            // The bean lives in the notes, so shots without notes cannot match it
+            if (bean && !candidate.hasNotes) continue;
+
+            const notes = candidate.hasNotes ? await readNotes(candidate.id) : null;
+            if (bean) {
+              const normalized = normalizeShotNotes(notes, candidate.timestamp);
+              const matches = normalized?.bean_id?.toLowerCase() === bean ||
+                !!normalized?.bean_name?.toLowerCase().includes(bean);
+              if (!matches) continue;
+            }
+
+            const shot = await fetchShotFromGaggimate(candidate.id);
+            if (!shot) continue;
+
+            const resolved = await resolveShotProfile(shot, currentProfiles);
+            inputs.push({
+              analysis: await analyzeShot(shot, false, notes, resolved),
+              profile: resolved.profile,
+            });
+          }
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  trends: calculateShotTrends(inputs, query.window),
+                  scanned_shots: scanned,
+                  scan_limit_reached: scanned >= MAX_TREND_SCAN && inputs.length < query.limit,
+                  offline,
+                  source: GAGGIMATE_HOST,
+                }),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  error: error instanceof Error ? error.message : "Failed to calculate shot trends",
+                  source: GAGGIMATE_HOST,
+                }),
+              },
+            ],
+          };
+        }
+      }
+
+      case "sync_shot_archive": {
+        try {
+          const result = await syncShotArchive();
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  ...result,
+                  source: GAGGIMATE_HOST,
+                }),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  error: error instanceof Error ? error.message : "Failed to sync shot archive",
+                  archive: await shotArchive.getStatus().catch(() => null),
+                  source: GAGGIMATE_HOST,
+                }),
+              },
+            ],
+          };
+        }
+      }
+
+      case "compare_shots": {
+        try {
+          const shotIds = Array.isArray(args?.shotIds) ? (args!.shotIds as unknown[]).map(String) : [];
+          const alignBy = (args?.alignBy as AlignmentMode | undefined) ?? "phase";
+
+          if (shotIds.length < 2 || shotIds.length > MAX_COMPARED_SHOTS || !ALIGNMENT_MODES.includes(alignBy)) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify({
+                    error: true,
+                    message: `shotIds must list 2 to ${MAX_COMPARED_SHOTS} shots and alignBy must be one of: ${ALIGNMENT_MODES.join(", ")}`,
+                    code: "INVALID_PARAMETERS",
+                  }),
+                },
+              ],
+            };
+          }
+
+          const inputs: ComparedShotInput[] = [];
+          for (const shotId of shotIds) {
+            const [shot, notes] = await Promise.all([
+              fetchShotFromGaggimate(shotId),
+              fetchShotNotesFromGaggimate(shotId),
+            ]);
+            if (!shot) {
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text: JSON.stringify({
+                      error: true,
+                      message: `Shot with ID '${shotId}' not found`,
+                      code: "SHOT_NOT_FOUND",
+                    }),
+                  },
+                ],
+              };
+            }
+            const resolved = await resolveShotProfile(shot);
+            const analysis = await analyzeShot(shot, false, notes, resolved);
+            inputs.push({ shot, analysis, profile: resolved.profile });
+          }
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  comparison: compareShots(inputs, alignBy),
+                  source: GAGGIMATE_HOST,
+                }),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  error: error instanceof Error ? error.message : "Failed to compare shots",
+                  source: GAGGIMATE_HOST,
+                }),
+              },
+            ],
+          };
+        }
+      }
+
+      case "update_shot_notes": {
+        try {
+          const parsed = ShotNotesUpdateSchema.safeParse(args ?? {});
+          if (!parsed.success) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify({
+                    error: true,
+                    message: "Invalid shot notes",
+                    code: "INVALID_PARAMETERS",
+                    issues: formatZodIssues(parsed.error),
+                  }),
+                },
+              ],
+            };
+          }
+
+          const update = parsed.data;
+          let existing: any = null;
+          if (update.merge) {
+            try {
+              existing = await readDeviceShotNotes(update.shotId);
+            } catch (error) {
+              // Saving without the current notes would erase every field not in this update
+              const reason = error instanceof Error ? error.message : String(error);
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text: JSON.stringify({
+                      error: true,
+                      message: `Could not read the current notes of shot ${update.shotId}, so nothing was saved: ${reason}. Retry, or set merge to false to replace the notes`,
+                      code: "NOTES_READ_FAILED",
+                      source: GAGGIMATE_HOST,
+                    }),
+                  },
+                ],
+              };
+            }
+          }
+          const notesToSave = buildDeviceShotNotes(update, existing);
+          const savedNotes = await gaggimate.saveShotNotes(update.shotId, notesToSave);
+          await archiveShotNotes(update.shotId, savedNotes);
+
+          // Notes naming a registered bean also count the shot against that bag
+          let beanAssociation: ShotAssociation | null = null;
+          if (update.beanId && await beans.getBean(update.beanId)) {
+            const shot = await fetchShotFromGaggimate(update.shotId);
+            beanAssociation = shot ? await associateShotWithBean(shot, update.beanId, savedNotes) : null;
+          }
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  shot_id: update.shotId,
+                  notes: savedNotes,
+                  ...(beanAssociation ? { bean: summarizeBean(beanAssociation.bean) } : {}),
+                  message: "Shot notes saved successfully",
+                  source: GAGGIMATE_HOST,
+                }),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  error: error instanceof Error ? error.message : "Failed to save shot notes",
+                  source: GAGGIMATE_HOST,
+                }),
+              },
+            ],
+          };
+        }
+      }
+
+      case "add_bean": {
+        try {
+          const parsed = BeanInputSchema.safeParse(args ?? {});
+          if (!parsed.success) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify({
+                    error: true,
+                    message: "Invalid bean",
+                    code: "INVALID_PARAMETERS",
+                    issues: formatZodIssues(parsed.error),
+                  }),
+                },
+              ],
+            };
+          }
+
+          const bean = await beans.addBean(parsed.data);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  bean: summarizeBean(bean),
+                  message: `Bean '${bean.name}' registered as '${bean.id}'`,
+                }),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  error: error instanceof Error ? error.message : "Failed to add bean",
+                }),
+              },
+            ],
+          };
+        }
+      }
+
+      case "list_beans": {
+        try {
+          const list = await beans.listBeans(args?.includeFinished === true);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  beans: list.map(summarizeBean),
+                  count: list.length,
+                }),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  error: error instanceof Error ? error.message : "Failed to list beans",
+                }),
+              },
+            ],
+          };
+        }
+      }
+
+      case "update_bean": {
+        try {
+          const parsed = BeanUpdateSchema.safeParse(args ?? {});
+          if (!parsed.success) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify({
+                    error: true,
+                    message: "Invalid bean update",
+                    code: "INVALID_PARAMETERS",
+                    issues: formatZodIssues(parsed.error),
+                  }),
+                },
+              ],
+            };
+          }
+
+          const bean = await beans.updateBean(parsed.data);
+          if (!bean) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify({
+                    error: true,
+                    message: `Bean '${parsed.data.beanId}' not found`,
+                    code: "BEAN_NOT_FOUND",
+                  }),
+                },
+              ],
+            };
+          }
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  bean: summarizeBean(bean),
+                  message: `Bean '${bean.id}' updated`,
+                }),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  error: error instanceof Error ? error.message : "Failed to update bean",
+                }),
+              },
+            ],
+          };
+        }
+      }
+
+      case "assign_shot_to_bean": {
+        try {
+          const parsed = ShotBeanAssignmentSchema.safeParse(args ?? {});
+          if (!parsed.success) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify({
+                    error: true,
+                    message: "Invalid shot assignment",
+                    code: "INVALID_PARAMETERS",
+                    issues: formatZodIssues(parsed.error),
+                  }),
+                },
+              ],
+            };
+          }
+
+          const { shotId, beanId, doseIn } = parsed.data;
+          const bean = await beans.getBean(beanId);
+          if (!bean) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify({
+                    error: true,
+                    message: `Bean '${beanId}' not found`,
+                    code: "BEAN_NOT_FOUND",
+                  }),
+                },
+              ],
+            };
+          }
+
+          // Saving merges into the notes read here, so a failed read must not be treated as "no notes"
+          const [shot, notesRead] = await Promise.all([
+            fetchShotFromGaggimate(shotId),
+            readDeviceShotNotes(shotId).then(
+              notes => ({ notes, error: null }),
+              (error: unknown) => ({ notes: null, error: error instanceof Error ? error.message : "Failed to read shot notes" }),
+            ),
+          ]);
+          if (!shot) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify({
+                    error: true,
+                    message: `Shot with ID '${shotId}' not found`,
+                    code: "SHOT_NOT_FOUND",
+                  }),
+                },
+              ],
+            };
+          }
+
+          const existingNotes = notesRead.error === null
+            ? notesRead.notes
+            : await shotArchive.readNotes(shotId).catch(() => null);
+          const association = await associateShotWithBean(shot, beanId, existingNotes, doseIn);
+
+          // Keep the device notes in step so the web UI and get_shot show the bean too
+          let notesError: string | null = null;
+          if (notesRead.error !== null) {
+            notesError = `Shot notes could not be read, so they were left unchanged: ${notesRead.error}`;
+          } else {
+            try {
+              const notesToSave = buildDeviceShotNotes({
+                shotId,
+                beanId: bean.id,
+                beanType: bean.name,
+                roastDate: bean.roast_date ?? undefined,
+                doseIn,
+                merge: true,
+              }, existingNotes);
+              const savedNotes = await gaggimate.saveShotNotes(shotId, notesToSave);
+              await archiveShotNotes(shotId, savedNotes);
+            } catch (error) {
+              notesError = error instanceof Error ? error.message : "Failed to save shot notes";
+            }
+          }
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  shot: association?.shot ?? null,
+                  bean: association ? summarizeBean(association.bean) : null,
+                  previous_bean_id: association?.previous_bean_id ?? null,
+                  notes_saved: notesError === null,
+                  ...(notesError ? { notes_error: notesError } : {}),
+                  source: GAGGIMATE_HOST,
+                }),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  error: error instanceof Error ? error.message : "Failed to assign shot to bean",
+                }),
+              },
+            ],
+          };
+        }
+      }
+
+      case "update_ai_profile": {
+        try {
+          const parsed = AIProfileInputSchema.safeParse(args ?? {});
+          if (!parsed.success) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify({
+                    error: true,
+                    message: "Invalid profile",
+                    code: "INVALID_PROFILE",
+                    issues: formatZodIssues(parsed.error),
+                  }),
+                },
+              ],
+            };
+          }
+
+          const { temperature, phases, slot } = parsed.data;
+          const dryRun = args?.dryRun === true;
+          const label = aiProfileLabel(slot, PROFILE_ACCESS);
+          const result = await updateOrCreateAIProfile({ temperature, phases }, slot, dryRun);
+          if (!result.saved) {
+            return unsavedProfileResponse(label, result);
+          }
+
+          const updatedProfile = result.profile;
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  profile: updatedProfile,
+                  message: updatedProfile.id ? `${label} updated successfully` : `${label} created successfully`,
+                  safety: result.safety,
+                  source: GAGGIMATE_HOST,
+                }),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  error: error instanceof Error ? error.message : "Failed to update AI Profile",
+                  source: GAGGIMATE_HOST,
+                }),
+              },
+            ],
+          };
+        }
+      }
+
+      case "get_machine_status": {
+        const status = statusMonitor.getStatus();
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                status: status,
+                connected: gaggimate.connected,
+                ...(status ? {} : { message: "No status received from the machine yet" }),
+                source: GAGGIMATE_HOST,
+              }),
+            },
+          ],
+        };
+      }
+
+      case "wait_for_next_shot": {
+        try {
+          const requestedTimeout = args?.timeoutSeconds as number | undefined;
+          const includeFullCurve = args?.includeFullCurve as boolean || false;
+          const fetchFinalizedShot = args?.fetchFinalizedShot !== false;
+          const timeoutSeconds = Math.min(
+            requestedTimeout && requestedTimeout > 0 ? requestedTimeout : DEFAULT_SHOT_WAIT_TIMEOUT,
+            MAX_SHOT_WAIT_TIMEOUT,
+          );
+
+          // Remember where the index was so we can tell when the new shot lands
+          let previousNextId: number | null = null;
+          if (fetchFinalizedShot) {
+            try {
+              const indexData = await fetchShotIndexFromGaggimate();
+              previousNextId = indexData ? indexData.header.nextId : 0;
+              if (liveShotRecorder.getCurrentShot()) {
+                // A shot already running has claimed its id; fall back to its
+                // start time when its index entry is not there yet
+                const running = indexData?.entries.filter(entry => !entry.deleted && entry.incomplete) ?? [];
+                previousNextId = running.length > 0 ? Math.max(...running.map(entry => entry.id)) : null;
+              }
+            } catch {
+              previousNextId = null;
+            }
+          }
+
+          const progressToken = request.params._meta?.progressToken;
+          let lastProgressAt = 0;
+
+          const liveShot = await liveShotRecorder.waitForShot({
+            timeoutMs: timeoutSeconds * 1000,
+            signal: extra.signal,
+            onProgress: progressToken === undefined ? undefined : (current) => {
+              const now = Date.now();
+              if (now - lastProgressAt < PROGRESS_INTERVAL) return;
+              lastProgressAt = now;
+              const lastSample = current.shot.samples[current.shot.samples.length - 1];
+              server.notification({
+                method: "notifications/progress",
+                params: {
+                  progressToken,
+                  progress: current.shot.duration / 1000,
+                  sample: lastSample,
+                },
+              }).catch(() => {});
+            },
+          });
+
+          if (!liveShot) {
+            const inProgress = liveShotRecorder.getCurrentShot();
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify({
+                    error: true,
+                    message: inProgress
+                      ? `Shot still running after ${timeoutSeconds} seconds`
+                      : `No shot finished within ${timeoutSeconds} seconds`,
+                    code: "SHOT_WAIT_TIMEOUT",
+                    ...(inProgress ? { live_shot: transformShotForAI(inProgress.shot, includeFullCurve) } : {}),
+                    connected: gaggimate.connected,
+                  }),
+                },
+              ],
+            };
+          }
+
+          let finalizedShotId: string | null = null;
+          let finalizedShot: any = null;
+          if (fetchFinalizedShot) {
+            finalizedShotId = await waitForFinalizedShotId(previousNextId, liveShot.startedAt);
+            if (finalizedShotId) {
+              const shot = await fetchShotFromGaggimate(finalizedShotId);
+              finalizedShot = shot
+                ? await analyzeShot(shot, includeFullCurve)
+                : null;
+            }
+          }
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  live_shot: transformShotForAI(liveShot.shot, includeFullCurve),
+                  shot_id: finalizedShotId,
+                  shot: finalizedShot,
+                  source: GAGGIMATE_HOST,
+                }),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  error: error instanceof Error ? error.message : "Failed to wait for shot",
+                  source: GAGGIMATE_HOST,
+                }),
+              },
+            ],
+          };
+        }
+      }
+
+      case "patch_ai_profile": {
+        try {
+          const parsedOperations = PatchOperationsSchema.safeParse(args?.operations);
+          if (!parsedOperations.success) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify({
+                    error: true,
+                    message: "Invalid patch operations",
+                    code: "INVALID_PATCH",
+                    issues: formatZodIssues(parsedOperations.error),
+                  }),
+                },
+              ],
+            };
+          }
+
+          const label = aiProfileLabel(args?.slot as string | undefined, PROFILE_ACCESS);
+          const dryRun = args?.dryRun === true;
+
+          const profiles = await fetchProfilesFromGaggimate();
+          const existing = profiles.find((p: any) => p.label === label);
+          const current = existing ? await fetchProfileFromGaggimate(existing.id) : null;
+          if (!current) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify({
+                    error: true,
+                    message: `Profile '${label}' not found on the device. Use update_ai_profile to create it first`,
+                    code: "PROFILE_NOT_FOUND",
+                  }),
+                },
+              ],
+            };
+          }
+
+          let patched: any;
+          try {
+            patched = applyProfilePatch(current, parsedOperations.data);
+          } catch (error) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify({
+                    error: true,
+                    message: error instanceof Error ? error.message : "Failed to apply patch",
+                    code: "INVALID_PATCH",
+                  }),
+                },
+              ],
+            };
+          }
+
+          const validated = ProProfileSchema.safeParse({ ...patched, id: existing.id, label });
+          if (!validated.success) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify({
+                    error: true,
+                    message: "Patched profile is invalid",
+                    code: "INVALID_PROFILE",
+                    issues: formatZodIssues(validated.error),
+                  }),
+                },
+              ],
+            };
+          }
+
+          const profileToSave = validated.data;
+          const changes = diffProfiles(current, profileToSave);
+          const result = await writeAIProfile(label, profileToSave, existing.id, "patch_ai_profile", { dryRun });
+          if (!result.saved) {
+            return unsavedProfileResponse(label, result, { changes });
+          }
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  profile: result.profile,
+                  changes,
+                  message: `${label} patched successfully`,
+                  safety: result.safety,
+                  source: GAGGIMATE_HOST,
+                }),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  error: error instanceof Error ? error.message : "Failed to patch AI Profile",
+                  source: GAGGIMATE_HOST,
+                }),
+              },
+            ],
+          };
+        }
+      }
+
+      case "import_profile":
+      case "export_profile": {
+        try {
+          const format = args?.format as ProfileFormat;
+          if (!PROFILE_FORMATS.includes(format)) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify({
+                    error: true,
+                    message: `format must be one of: ${PROFILE_FORMATS.join(", ")}`,
+                    code: "INVALID_FORMAT",
+                  }),
+                },
+              ],
+            };
+          }
+
+          if (name === "export_profile") {
+            const profileId = args?.profileId as string;
+            const profile = profileId ? await fetchProfileFromGaggimate(profileId) : null;
+            if (!profile) {
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text: JSON.stringify({
+                      error: true,
+                      message: profileId ? `Profile with ID '${profileId}' not found` : "profileId is required",
+                      code: profileId ? "PROFILE_NOT_FOUND" : "MISSING_PARAMETER",
+                    }),
+                  },
+                ],
+              };
+            }
+
+            const exported = exportProfile(format, profile);
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify({
+                    format,
+                    content: exported.content,
+                    unsupported: exported.unsupported,
+                    source: GAGGIMATE_HOST,
+                  }),
+                },
+              ],
+            };
+          }
 
-// Handle list tools request
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return {
-    tools: TOOLS,
-  };
-});
+          const content = args?.content as string;
+          if (!content) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify({
+                    error: true,
+                    message: "content is required",
+                    code: "MISSING_PARAMETER",
+                  }),
+                },
+              ],
+            };
+          }
 
-// Handle tool calls
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
+          const imported = importProfile(format, content);
+          const label = aiProfileLabel(args?.slot as string | undefined, PROFILE_ACCESS);
+          const candidate = {
+            label,
+            type: "pro",
+            favorite: false,
+            selected: false,
+            utility: false,
+            ...imported.profile,
+          };
+          const validated = ProProfileSchema.safeParse(candidate);
+          const validationIssues = validated.success ? [] : formatZodIssues(validated.error);
+
+          if (args?.save !== true) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify({
+                    name: imported.name,
+                    profile: validated.success ? validated.data : candidate,
+                    unsupported: imported.unsupported,
+                    validation_issues: validationIssues,
+                  }),
+                },
+              ],
+            };
+          }
+
+          if (!validated.success) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify({
+                    error: true,
+                    message: "Imported profile is invalid",
+                    code: "INVALID_PROFILE",
+                    issues: validationIssues,
+                    unsupported: imported.unsupported,
+                  }),
+                },
+              ],
+            };
+          }
 
-  try {
-    switch (name) {
-      case "list_profiles": {
-        try {
           const profiles = await fetchProfilesFromGaggimate();
+          const existing = profiles.find((p: any) => p.label === label);
+          const profileToSave = { ...validated.data, ...(existing ? { id: existing.id } : {}) };
+          const result = await writeAIProfile(label, profileToSave, existing?.id, `import_profile (${format})`, { dryRun: args?.dryRun === true });
+          if (!result.saved) {
+            return unsavedProfileResponse(label, result, { unsupported: imported.unsupported });
+          }
+
           return {
             content: [
               {
                 type: "text",
                 text: JSON.stringify({
-                  profiles: profiles,
+                  profile: result.profile,
+                  unsupported: imported.unsupported,
+                  message: `'${imported.name}' imported into ${label}`,
+                  safety: result.safety,
                   source: GAGGIMATE_HOST,
                 }),
               },
             ],
           };
         } catch (error) {
-          // Return error but still as valid response
           return {
             content: [
               {
                 type: "text",
                 text: JSON.stringify({
-                  profiles: [],
-                  error: error instanceof Error ? error.message : "Failed to fetch profiles",
+                  error: error instanceof Error ? error.message : `Failed to ${name === "export_profile" ? "export" : "import"} profile`,
                   source: GAGGIMATE_HOST,
                 }),
               },
@@ -695,25 +2762,50 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         }
       }
 
-      case "get_profile": {
+      case "preview_profile": {
         try {
-          const profileId = args?.profileId as string;
-          if (!profileId) {
+          let profile: any = null;
+
+          if (Array.isArray(args?.phases)) {
+            const parsed = AIProfileInputSchema.safeParse({ temperature: args?.temperature, phases: args?.phases });
+            if (!parsed.success) {
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text: JSON.stringify({
+                      error: true,
+                      message: "Invalid profile",
+                      code: "INVALID_PROFILE",
+                      issues: formatZodIssues(parsed.error),
+                    }),
+                  },
+                ],
+              };
+            }
+            profile = buildAIProfile("Preview", parsed.data);
+          } else if (args?.profileId) {
+            profile = await fetchProfileFromGaggimate(args.profileId as string);
+          } else if (args?.slot !== undefined) {
+            const label = aiProfileLabel(args.slot as string, PROFILE_ACCESS);
+            const profiles = await fetchProfilesFromGaggimate();
+            const existing = profiles.find((p: any) => p.label === label);
+            profile = existing ? await fetchProfileFromGaggimate(existing.id) : null;
+          } else {
             return {
               content: [
                 {
                   type: "text",
                   text: JSON.stringify({
                     error: true,
-                    message: "profileId is required",
-                    code: "MISSING_PARAMETER",
+                    message: "Provide phases (with temperature), a profileId or a slot",
+                    code: "MISSING_PARAMETERS",
                   }),
                 },
               ],
             };
           }
 
-          const profile = await fetchProfileFromGaggimate(profileId);
           if (!profile) {
             return {
               content: [
@@ -721,33 +2813,64 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
                   type: "text",
                   text: JSON.stringify({
                     error: true,
-                    message: `Profile with ID '${profileId}' not found`,
+                    message: "Profile not found",
                     code: "PROFILE_NOT_FOUND",
                   }),
                 },
               ],
             };
           }
+          if (profile.type === "simple") {
+            profile = expandSimpleProfile(profile).profile;
+          }
+
+          const compareShotId = args?.compareShotId as string | undefined;
+          const shot = compareShotId ? await fetchShotFromGaggimate(compareShotId) : null;
+          if (compareShotId && !shot) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify({
+                    error: true,
+                    message: `Shot with ID '${compareShotId}' not found`,
+                    code: "SHOT_NOT_FOUND",
+                  }),
+                },
+              ],
+            };
+          }
+
+          const requestedInterval = args?.sampleIntervalMs as number | undefined;
+          const intervalMs = requestedInterval && requestedInterval >= 50
+            ? requestedInterval
+            : shot?.sampleInterval || DEFAULT_PREVIEW_INTERVAL_MS;
+
+          let preview = simulateProfile(profile, intervalMs);
+          if (shot) {
+            preview = overlayShot(preview, shot);
+          }
 
           return {
             content: [
               {
                 type: "text",
                 text: JSON.stringify({
-                  profile: profile,
+                  profile_label: profile.label,
+                  preview,
+                  safety: evaluateSafety(profile, null, SAFETY_POLICY),
                   source: GAGGIMATE_HOST,
                 }),
               },
             ],
           };
         } catch (error) {
-          // Return error but still as valid response
           return {
             content: [
               {
                 type: "text",
                 text: JSON.stringify({
-                  error: error instanceof Error ? error.message : "Failed to fetch profile",
+                  error: error instanceof Error ? error.message : "Failed to preview profile",
                   source: GAGGIMATE_HOST,
                 }),
               },
@@ -756,34 +2879,30 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         }
       }
 
-      case "list_shot_history": {
+      case "list_ai_profile_versions": {
         try {
-          const limit = args?.limit as number | undefined;
-          const offset = args?.offset as number | undefined;
-          
-          const shots = await fetchShotHistoryFromGaggimate(limit, offset);
+          const label = aiProfileLabel(args?.slot as string | undefined, PROFILE_ACCESS);
+          const versions = await profileVersions.listVersions(label);
           return {
             content: [
               {
                 type: "text",
                 text: JSON.stringify({
-                  shots: shots,
-                  count: shots.length,
-                  source: GAGGIMATE_HOST,
+                  label,
+                  versions: versions.map(summarizeProfileVersion).reverse(),
+                  count: versions.length,
                 }),
               },
             ],
           };
         } catch (error) {
-          // Return error but still as valid response
           return {
             content: [
               {
                 type: "text",
                 text: JSON.stringify({
-                  shots: [],
-                  error: error instanceof Error ? error.message : "Failed to fetch shot history",
-                  source: GAGGIMATE_HOST,
+                  versions: [],
+                  error: error instanceof Error ? error.message : "Failed to list profile versions",
                 }),
               },
             ],
@@ -791,70 +2910,152 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         }
       }
 
-      case "get_shot": {
+      case "diff_ai_profile_versions": {
         try {
-          const shotId = args?.shotId as string;
-          const includeFullCurve = args?.includeFullCurve as boolean || false;
+          const label = aiProfileLabel(args?.slot as string | undefined, PROFILE_ACCESS);
+          const fromVersion = args?.fromVersion as number;
+          const toVersion = args?.toVersion as number | undefined;
 
-          if (!shotId) {
+          const from = await profileVersions.getVersion(label, fromVersion);
+          if (!from) {
             return {
               content: [
                 {
                   type: "text",
                   text: JSON.stringify({
                     error: true,
-                    message: "shotId is required",
-                    code: "MISSING_PARAMETER",
+                    message: `Version ${fromVersion} of '${label}' not found`,
+                    code: "VERSION_NOT_FOUND",
                   }),
                 },
               ],
             };
           }
 
-          // Fetch shot data and notes in parallel
-          const [shot, notes] = await Promise.all([
-            fetchShotFromGaggimate(shotId),
-            fetchShotNotesFromGaggimate(shotId),
-          ]);
+          let toProfile: any;
+          if (toVersion !== undefined) {
+            const to = await profileVersions.getVersion(label, toVersion);
+            if (!to) {
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text: JSON.stringify({
+                      error: true,
+                      message: `Version ${toVersion} of '${label}' not found`,
+                      code: "VERSION_NOT_FOUND",
+                    }),
+                  },
+                ],
+              };
+            }
+            toProfile = to.profile;
+          } else {
+            const profiles = await fetchProfilesFromGaggimate();
+            const current = profiles.find((p: any) => p.label === label);
+            toProfile = current ? await fetchProfileFromGaggimate(current.id) : null;
+            if (!toProfile) {
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text: JSON.stringify({
+                      error: true,
+                      message: `Profile '${label}' not found on the device`,
+                      code: "PROFILE_NOT_FOUND",
+                    }),
+                  },
+                ],
+              };
+            }
+          }
 
-          if (!shot) {
+          const changes = diffProfiles(from.profile, toProfile);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  label,
+                  from_version: fromVersion,
+                  to_version: toVersion ?? "current",
+                  changes,
+                  change_count: changes.length,
+                }),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  error: error instanceof Error ? error.message : "Failed to diff profile versions",
+                  source: GAGGIMATE_HOST,
+                }),
+              },
+            ],
+          };
+        }
+      }
+
+      case "rollback_ai_profile": {
+        try {
+          const label = aiProfileLabel(args?.slot as string | undefined, PROFILE_ACCESS);
+          const version = args?.version as number;
+
+          const target = await profileVersions.getVersion(label, version);
+          if (!target) {
             return {
               content: [
                 {
                   type: "text",
                   text: JSON.stringify({
                     error: true,
-                    message: `Shot with ID '${shotId}' not found`,
-                    code: "SHOT_NOT_FOUND",
+                    message: `Version ${version} of '${label}' not found`,
+                    code: "VERSION_NOT_FOUND",
                   }),
                 },
               ],
             };
           }
 
-          // Transform shot data to AI-friendly format
-          const transformedShot = transformShotForAI(shot, includeFullCurve);
+          const profiles = await fetchProfilesFromGaggimate();
+          const current = profiles.find((p: any) => p.label === label);
+          const { id, ...restored } = target.profile;
+          const profileToSave = {
+            ...restored,
+            ...(current ? { id: current.id } : {}),
+            label,
+          };
+
+          // A rollback returns to a known revision, so only the absolute limits apply
+          const result = await writeAIProfile(label, profileToSave, current?.id, `rollback to version ${version}`, { checkDeltas: false });
+          if (!result.saved) {
+            return unsavedProfileResponse(label, result);
+          }
 
+          const savedProfile = result.profile;
           return {
             content: [
               {
                 type: "text",
                 text: JSON.stringify({
-                  shot: transformedShot,
-                  notes: notes,
+                  profile: savedProfile,
+                  message: `${label} rolled back to version ${version}`,
                   source: GAGGIMATE_HOST,
                 }),
               },
             ],
           };
         } catch (error) {
-          // Return error but still as valid response
           return {
             content: [
               {
                 type: "text",
                 text: JSON.stringify({
-                  error: error instanceof Error ? error.message : "Failed to fetch shot",
+                  error: error instanceof Error ? error.message : "Failed to roll back AI Profile",
                   source: GAGGIMATE_HOST,
                 }),
               },
@@ -863,69 +3064,161 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         }
       }
 
-      case "update_ai_profile": {
+      case "clone_profile":
+      case "select_profile":
+      case "set_profile_favorite":
+      case "delete_ai_profile": {
+        if (!PROFILE_ACCESS.managementEnabled) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  error: true,
+                  message: "Profile management is disabled. Set GAGGIMATE_PROFILE_MANAGEMENT=true to enable it.",
+                  code: "PROFILE_MANAGEMENT_DISABLED",
+                }),
+              },
+            ],
+          };
+        }
+
         try {
-          const temperature = args?.temperature as number;
-          const phases = args?.phases as any[];
-          
-          if (!temperature || !Array.isArray(phases) || phases.length === 0) {
+          const profileId = args?.profileId as string;
+          if (!profileId) {
             return {
               content: [
                 {
                   type: "text",
                   text: JSON.stringify({
                     error: true,
-                    message: "Temperature and phases array are required",
-                    code: "MISSING_PARAMETERS",
+                    message: "profileId is required",
+                    code: "MISSING_PARAMETER",
                   }),
                 },
               ],
             };
           }
-          
-          // Validate temperature range
-          if (temperature < 60 || temperature > 100) {
+
+          const profiles = await fetchProfilesFromGaggimate();
+          const profile = profiles.find((p: any) => p.id === profileId);
+          if (!profile) {
             return {
               content: [
                 {
                   type: "text",
                   text: JSON.stringify({
                     error: true,
-                    message: "Temperature must be between 60 and 100°C",
-                    code: "INVALID_TEMPERATURE",
+                    message: `Profile with ID '${profileId}' not found`,
+                    code: "PROFILE_NOT_FOUND",
                   }),
                 },
               ],
             };
           }
-          
-          // Validate phases
-          for (const phase of phases) {
-            if (!phase.name || !phase.phase || !phase.duration) {
-              return {
-                content: [
-                  {
-                    type: "text",
-                    text: JSON.stringify({
-                      error: true,
-                      message: "Each phase must have name, phase type, and duration",
-                      code: "INVALID_PHASE",
-                    }),
-                  },
-                ],
+
+          const allowed = name === "clone_profile"
+            ? true
+            : name === "delete_ai_profile"
+              ? canDeleteProfile(profile, PROFILE_ACCESS)
+              : canManageProfile(profile, PROFILE_ACCESS);
+          if (!allowed) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify({
+                    error: true,
+                    message: name === "delete_ai_profile"
+                      ? `Profile '${profile.label}' was not created by the AI and cannot be deleted`
+                      : `Profile '${profile.label}' is not AI-owned or allowlisted (GAGGIMATE_PROFILE_ALLOWLIST)`,
+                    code: "PROFILE_NOT_ALLOWED",
+                  }),
+                },
+              ],
+            };
+          }
+
+          let result: any;
+          switch (name) {
+            case "clone_profile": {
+              const cloneName = args?.name as string;
+              if (!cloneName) {
+                return {
+                  content: [
+                    {
+                      type: "text",
+                      text: JSON.stringify({
+                        error: true,
+                        message: "name is required",
+                        code: "MISSING_PARAMETER",
+                      }),
+                    },
+                  ],
+                };
+              }
+              const label = aiSlotLabel(cloneName, PROFILE_ACCESS);
+              if (profiles.some((p: any) => p.label === label)) {
+                return {
+                  content: [
+                    {
+                      type: "text",
+                      text: JSON.stringify({
+                        error: true,
+                        message: `A profile labelled '${label}' already exists`,
+                        code: "PROFILE_EXISTS",
+                      }),
+                    },
+                  ],
+                };
+              }
+              const cloned = await cloneProfileToAISlot(profileId, label, args?.dryRun === true);
+              if (cloned && !cloned.saved) {
+                return unsavedProfileResponse(label, cloned);
+              }
+              result = {
+                profile: cloned?.profile ?? null,
+                message: `Profile '${profile.label}' cloned to '${label}'`,
+                ...(cloned ? { safety: cloned.safety } : {}),
               };
+              break;
+            }
+            case "select_profile":
+              await gaggimate.selectProfile(profileId);
+              result = { message: `Profile '${profile.label}' selected` };
+              break;
+            case "set_profile_favorite": {
+              const favorite = args?.favorite;
+              if (typeof favorite !== "boolean") {
+                return {
+                  content: [
+                    {
+                      type: "text",
+                      text: JSON.stringify({
+                        error: true,
+                        message: "favorite must be true or false",
+                        code: "MISSING_PARAMETER",
+                      }),
+                    },
+                  ],
+                };
+              }
+              await gaggimate.setProfileFavorite(profileId, favorite);
+              result = { message: `Profile '${profile.label}' ${favorite ? "favourited" : "unfavourited"}` };
+              break;
             }
+            case "delete_ai_profile":
+              await gaggimate.deleteProfile(profileId);
+              result = { message: `Profile '${profile.label}' deleted` };
+              break;
           }
-          
-          const updatedProfile = await updateOrCreateAIProfile({ temperature, phases });
-          
+
           return {
             content: [
               {
                 type: "text",
                 text: JSON.stringify({
-                  profile: updatedProfile,
-                  message: updatedProfile.id ? "AI Profile updated successfully" : "AI Profile created successfully",
+                  ...result,
                   source: GAGGIMATE_HOST,
                 }),
               },
@@ -937,7 +3230,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               {
                 type: "text",
                 text: JSON.stringify({
-                  error: error instanceof Error ? error.message : "Failed to update AI Profile",
+                  error: error instanceof Error ? error.message : "Failed to manage profile",
                   source: GAGGIMATE_HOST,
                 }),
               },
@@ -976,8 +3269,53 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
   }
 });
 
+// Handle list resources request
+server.setRequestHandler(ListResourcesRequestSchema, async () => {
+  return {
+    resources: [
+      {
+        uri: MACHINE_STATUS_URI,
+        name: "Machine status",
+        description: "Latest status event from the Gaggimate machine (temperature, pressure, mode, selected profile, shot running)",
+        mimeType: "application/json",
+      },
+    ],
+  };
+});
+
+// Handle read resource request
+server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+  const { uri } = request.params;
+
+  if (uri !== MACHINE_STATUS_URI) {
+    throw new Error(`Unknown resource: ${uri}`);
+  }
+
+  return {
+    contents: [
+      {
+        uri,
+        mimeType: "application/json",
+        text: JSON.stringify({
+          status: statusMonitor.getStatus(),
+          connected: gaggimate.connected,
+          source: GAGGIMATE_HOST,
+        }),
+      },
+    ],
+  };
+});
+
 // Start the server
 async function main() {
+  statusMonitor.start();
+  liveShotRecorder.start();
+
+  // Catch up on shots pulled while the server was not running
+  syncShotArchive().catch(error => {
+    console.error("Shot archive sync failed:", error instanceof Error ? error.message : error);
+  });
+
   const transport = new StdioServerTransport();
   await server.connect(transport);
   console.error(`Gaggimate MCP server running (connecting to ${GAGGIMATE_PROTOCOL}://${GAGGIMATE_HOST}/ws)`);
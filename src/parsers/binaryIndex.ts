@@ -57,6 +57,7 @@ export interface ShotListItem {
   volume: number | null;
   rating: number | null;
   incomplete: boolean;
+  hasNotes: boolean;
   notes: null;
   loaded: boolean;
   data: null;
@@ -160,6 +161,7 @@ export function indexToShotList(indexData: IndexData): ShotListItem[] {
       volume: entry.volume,
       rating: entry.rating > 0 ? entry.rating : null,
       incomplete: entry.incomplete,
+      hasNotes: entry.hasNotes,
       notes: null,
       loaded: false,
       data: null,
@@ -0,0 +1,69 @@
+// Ownership and allowlist rules for profiles the AI may manage
+// Profiles the AI creates are recognised by their label
+
+export const AI_PROFILE_LABEL = "AI Profile";
+export const DEFAULT_AI_PROFILE_PREFIX = "AI - ";
+
+export interface ProfileAccessConfig {
+  managementEnabled: boolean;
+  allowlist: string[];
+  aiProfilePrefix: string;
+}
+
+/**
+ * Read profile management settings from the environment
+ */
+export function loadProfileAccessConfig(env: NodeJS.ProcessEnv = process.env): ProfileAccessConfig {
+  return {
+    managementEnabled: env.GAGGIMATE_PROFILE_MANAGEMENT === "true",
+    allowlist: (env.GAGGIMATE_PROFILE_ALLOWLIST || "")
+      .split(",")
+      .map(entry => entry.trim())
+      .filter(entry => entry.length > 0),
+    aiProfilePrefix: env.GAGGIMATE_AI_PROFILE_PREFIX || DEFAULT_AI_PROFILE_PREFIX,
+  };
+}
+
+/**
+ * Whether the profile was created by the AI (the main AI Profile or a prefixed slot)
+ */
+export function isAIProfile(profile: { label?: string }, config: ProfileAccessConfig): boolean {
+  const label = profile.label || "";
+  return label === AI_PROFILE_LABEL || label.startsWith(config.aiProfilePrefix);
+}
+
+/**
+ * Label for an AI-owned profile slot, adding the prefix if missing
+ */
+export function aiSlotLabel(name: string, config: ProfileAccessConfig): string {
+  return name.startsWith(config.aiProfilePrefix) ? name : `${config.aiProfilePrefix}${name}`;
+}
+
+/**
+ * Label of the profile update_ai_profile writes to: a named slot or the main AI Profile
+ */
+export function aiProfileLabel(slot: string | undefined, config: ProfileAccessConfig): string {
+  const name = slot?.trim();
+  return name ? aiSlotLabel(name, config) : AI_PROFILE_LABEL;
+}
+
+/**
+ * Whether the profile was explicitly allowlisted by label or id
+ */
+export function isAllowlisted(profile: { id?: string; label?: string }, config: ProfileAccessConfig): boolean {
+  return config.allowlist.some(entry => entry === profile.id || entry === profile.label);
+}
+
+/**
+ * Profiles the AI may select or (un)favourite
+ */
+export function canManageProfile(profile: { id?: string; label?: string }, config: ProfileAccessConfig): boolean {
+  return isAIProfile(profile, config) || isAllowlisted(profile, config);
+}
+
+/**
+ * Profiles the AI may delete: only the ones it created itself
+ */
+export function canDeleteProfile(profile: { id?: string; label?: string }, config: ProfileAccessConfig): boolean {
+  return isAIProfile(profile, config);
+}
@@ -0,0 +1,51 @@
+// Structural diff between two profile objects, reported as field paths
+
+export interface ProfileChange {
+  path: string;
+  from: any;
+  to: any;
+}
+
+// Fields that change on every save and say nothing about the recipe
+const IGNORED_FIELDS = new Set(['id', 'selected', 'favorite']);
+
+function isPlainObject(value: any): value is { [key: string]: any } {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function joinPath(base: string, key: string | number): string {
+  if (typeof key === 'number') return `${base}[${key}]`;
+  return base ? `${base}.${key}` : key;
+}
+
+function diffValues(from: any, to: any, path: string, changes: ProfileChange[]): void {
+  if (Array.isArray(from) && Array.isArray(to)) {
+    const length = Math.max(from.length, to.length);
+    for (let i = 0; i < length; i++) {
+      diffValues(from[i], to[i], joinPath(path, i), changes);
+    }
+    return;
+  }
+
+  if (isPlainObject(from) && isPlainObject(to)) {
+    const keys = new Set([...Object.keys(from), ...Object.keys(to)]);
+    for (const key of keys) {
+      if (!path && IGNORED_FIELDS.has(key)) continue;
+      diffValues(from[key], to[key], joinPath(path, key), changes);
+    }
+    return;
+  }
+
+  if (JSON.stringify(from) !== JSON.stringify(to)) {
+    changes.push({ path: path || '(root)', from: from ?? null, to: to ?? null });
+  }
+}
+
+/**
+ * List every field that differs between two profiles
+ */
+export function diffProfiles(from: any, to: any): ProfileChange[] {
+  const changes: ProfileChange[] = [];
+  diffValues(from, to, '', changes);
+  return changes;
+}
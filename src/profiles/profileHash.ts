@@ -0,0 +1,34 @@
+// Content hash of a profile's brewing parameters
+// Two profiles with the same recipe hash equally regardless of id or UI flags
+
+import { createHash } from 'crypto';
+
+// Fields that do not affect how a shot is brewed
+const NON_RECIPE_FIELDS = new Set(['id', 'selected', 'favorite', 'label', 'description']);
+
+function canonicalize(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(canonicalize);
+  }
+  if (value !== null && typeof value === 'object') {
+    const sorted: { [key: string]: any } = {};
+    for (const key of Object.keys(value).sort()) {
+      sorted[key] = canonicalize(value[key]);
+    }
+    return sorted;
+  }
+  return value;
+}
+
+/**
+ * Short sha256 over the canonical JSON of the recipe fields
+ */
+export function hashProfile(profile: any): string {
+  const recipe: { [key: string]: any } = {};
+  for (const [key, value] of Object.entries(profile || {})) {
+    if (!NON_RECIPE_FIELDS.has(key)) {
+      recipe[key] = value;
+    }
+  }
+  return createHash('sha256').update(JSON.stringify(canonicalize(recipe))).digest('hex').slice(0, 12);
+}
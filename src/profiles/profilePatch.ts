@@ -0,0 +1,167 @@
+// JSON-Patch-like edits applied to a profile loaded from the device
+// Paths are JSON Pointers ("/phases/1/pump/pressure"); array segments may also be
+// a negative index counted from the end ("-1" = last) or a phase name ("Extraction")
+
+import { z } from 'zod';
+
+export const PATCH_OPERATIONS = ['replace', 'add', 'remove', 'increment'] as const;
+
+// Identity of the profile is managed by the server, not by patches
+const PROTECTED_PATHS = new Set(['/id', '/label', '/type']);
+
+export const PatchOperationSchema = z.object({
+  op: z.enum(PATCH_OPERATIONS),
+  path: z.string().startsWith('/', 'path must be a JSON Pointer starting with /'),
+  value: z.any().optional(),
+}).superRefine((operation, ctx) => {
+  if (operation.op !== 'remove' && operation.value === undefined) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['value'],
+      message: `value is required for ${operation.op}`,
+    });
+  }
+  if (operation.op === 'increment' && typeof operation.value !== 'number') {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['value'],
+      message: 'increment value must be a number (use a negative number to decrease)',
+    });
+  }
+});
+
+export const PatchOperationsSchema = z.array(PatchOperationSchema).min(1, 'At least one operation is required');
+
+export type PatchOperation = z.infer<typeof PatchOperationSchema>;
+
+// Keys that would reach Object.prototype instead of profile data
+const FORBIDDEN_SEGMENTS = new Set(['__proto__', 'constructor', 'prototype']);
+
+function parsePointer(path: string): string[] {
+  const segments = path
+    .slice(1)
+    .split('/')
+    .map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+  const forbidden = segments.find(segment => FORBIDDEN_SEGMENTS.has(segment));
+  if (forbidden !== undefined) {
+    throw new Error(`'${forbidden}' is not allowed in a path`);
+  }
+  return segments;
+}
+
+// Resolve an array segment to an index; "-" (append) is only valid for add
+function resolveIndex(array: any[], segment: string, allowAppend: boolean): number {
+  if (segment === '-' && allowAppend) {
+    return array.length;
+  }
+  if (/^-?\d+$/.test(segment)) {
+    const index = parseInt(segment, 10);
+    const resolved = index < 0 ? array.length + index : index;
+    const max = allowAppend ? array.length : array.length - 1;
+    if (resolved < 0 || resolved > max) {
+      throw new Error(`index ${segment} is out of range (length ${array.length})`);
+    }
+    return resolved;
+  }
+  const byName = array.findIndex(item => item && typeof item === 'object' && item.name === segment);
+  if (byName === -1) {
+    throw new Error(`no element named '${segment}'`);
+  }
+  return byName;
+}
+
+function applyOperation(root: any, operation: PatchOperation): void {
+  if (PROTECTED_PATHS.has(operation.path)) {
+    throw new Error(`${operation.path} cannot be changed`);
+  }
+
+  const segments = parsePointer(operation.path);
+  let parent = root;
+  for (const segment of segments.slice(0, -1)) {
+    if (Array.isArray(parent)) {
+      parent = parent[resolveIndex(parent, segment, false)];
+    } else if (parent && typeof parent === 'object') {
+      if (!Object.hasOwn(parent, segment) && operation.op === 'add') {
+        parent[segment] = {};
+      }
+      parent = Object.hasOwn(parent, segment) ? parent[segment] : undefined;
+    } else {
+      parent = undefined;
+    }
+    if (parent === undefined || parent === null) {
+      throw new Error(`path does not exist`);
+    }
+  }
+
+  const last = segments[segments.length - 1];
+
+  if (Array.isArray(parent)) {
+    if (operation.op === 'add') {
+      parent.splice(resolveIndex(parent, last, true), 0, operation.value);
+      return;
+    }
+    const index = resolveIndex(parent, last, false);
+    if (operation.op === 'remove') {
+      parent.splice(index, 1);
+    } else if (operation.op === 'replace') {
+      parent[index] = operation.value;
+    } else {
+      if (typeof parent[index] !== 'number') {
+        throw new Error(`cannot increment a non-numeric value`);
+      }
+      parent[index] = roundPatchValue(parent[index] + operation.value);
+    }
+    return;
+  }
+
+  if (!parent || typeof parent !== 'object') {
+    throw new Error(`path does not exist`);
+  }
+
+  switch (operation.op) {
+    case 'add':
+      parent[last] = operation.value;
+      break;
+    case 'replace':
+      if (!Object.hasOwn(parent, last)) {
+        throw new Error(`path does not exist (use add to create it)`);
+      }
+      parent[last] = operation.value;
+      break;
+    case 'remove':
+      if (!Object.hasOwn(parent, last)) {
+        throw new Error(`path does not exist`);
+      }
+      delete parent[last];
+      break;
+    case 'increment': {
+      const current = (Object.hasOwn(parent, last) ? parent[last] : undefined) ?? 0;
+      if (typeof current !== 'number') {
+        throw new Error(`cannot increment a non-numeric value`);
+      }
+      parent[last] = roundPatchValue(current + operation.value);
+      break;
+    }
+  }
+}
+
+// Avoid 9.000000000000002 after repeated increments
+function roundPatchValue(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Apply operations in order to a copy of the profile. Throws on the first failing operation.
+ */
+export function applyProfilePatch(profile: any, operations: PatchOperation[]): any {
+  const patched = JSON.parse(JSON.stringify(profile));
+  operations.forEach((operation, i) => {
+    try {
+      applyOperation(patched, operation);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Operation ${i} (${operation.op} ${operation.path}): ${reason}`);
+    }
+  });
+  return patched;
+}
@@ -0,0 +1,216 @@
+// Predicted target curves for a pro profile, sampled like a .slog file
+// Stop conditions cannot be predicted without the puck, so phases run for their full duration
+
+import { ShotData } from '../parsers/binaryShot.js';
+import { round } from '../utils/math.js';
+
+export const DEFAULT_PREVIEW_INTERVAL_MS = 250;
+
+export interface PredictedSample {
+  time_seconds: number;
+  phase: string;
+  target_pressure_bar: number | null;
+  target_flow_ml_s: number | null;
+  target_temperature_c: number;
+  actual_pressure_bar?: number;
+  actual_flow_ml_s?: number;
+  actual_temperature_c?: number;
+  actual_weight_g?: number;
+}
+
+export interface PredictedPhase {
+  name: string;
+  phase: string;
+  start_time_seconds: number;
+  duration_seconds: number;
+  pump_target: 'pressure' | 'flow';
+  target_start: number;
+  target_end: number;
+  limit: number | null;
+  transition: string;
+  transition_seconds: number;
+  temperature_c: number;
+  stop_conditions: string[];
+}
+
+export interface ProfilePreview {
+  sample_interval_ms: number;
+  total_duration_seconds: number;
+  phases: PredictedPhase[];
+  timeline: PredictedSample[];
+  overlay?: {
+    shot_id: string;
+    shot_duration_seconds: number;
+    pressure_rmse_bar: number | null;
+    flow_rmse_ml_s: number | null;
+    temperature_rmse_c: number | null;
+  };
+}
+
+function ease(type: string, progress: number): number {
+  const t = Math.max(0, Math.min(progress, 1));
+  switch (type) {
+    case 'instant':
+      return 1;
+    case 'ease-in':
+      return t * t;
+    case 'ease-out':
+      return 1 - (1 - t) * (1 - t);
+    case 'ease-in-out':
+      return t < 0.5 ? 2 * t * t : 1 - 2 * (1 - t) * (1 - t);
+    default:
+      return t;
+  }
+}
+
+function describeTarget(target: any): string {
+  const units: { [type: string]: string } = { pressure: 'bar', flow: 'ml/s', volumetric: 'g', pumped: 'ml' };
+  const operator = target.operator === 'lte' ? '<=' : '>=';
+  return `${target.type} ${operator} ${target.value} ${units[target.type] || ''}`.trim();
+}
+
+/**
+ * Predict target pressure/flow/temperature over time for a pro profile
+ */
+export function simulateProfile(profile: any, intervalMs: number = DEFAULT_PREVIEW_INTERVAL_MS): ProfilePreview {
+  const phases: any[] = Array.isArray(profile?.phases) ? profile.phases : [];
+  const predictedPhases: PredictedPhase[] = [];
+  const timeline: PredictedSample[] = [];
+
+  let lastPressure = 0;
+  let lastFlow = 0;
+  let phaseStart = 0;
+
+  for (const [i, phase] of phases.entries()) {
+    const pump = phase.pump && typeof phase.pump === 'object'
+      ? phase.pump
+      : { target: 'pressure', pressure: typeof phase.pump === 'number' ? 9 * phase.pump / 100 : 9, flow: 0 };
+    const isFlow = pump.target === 'flow';
+    const duration = Math.max(0, phase.duration || 0);
+    const transition = phase.transition || { type: 'instant', duration: 0 };
+    const transitionSeconds = transition.type === 'instant' ? 0 : Math.min(transition.duration || 0, duration);
+    const temperature = phase.temperature || profile.temperature;
+
+    const start = isFlow ? lastFlow : lastPressure;
+    const end = isFlow ? pump.flow || 0 : pump.pressure || 0;
+    const limit = isFlow ? pump.pressure || 0 : pump.flow || 0;
+
+    predictedPhases.push({
+      name: phase.name || `Phase ${i + 1}`,
+      phase: phase.phase || 'brew',
+      start_time_seconds: round(phaseStart / 1000, 2),
+      duration_seconds: duration,
+      pump_target: isFlow ? 'flow' : 'pressure',
+      target_start: round(start),
+      target_end: end,
+      limit: limit > 0 ? limit : null,
+      transition: transition.type,
+      transition_seconds: transitionSeconds,
+      temperature_c: temperature,
+      stop_conditions: (Array.isArray(phase.targets) ? phase.targets : []).map(describeTarget),
+    });
+
+    const phaseMs = duration * 1000;
+    const firstTick = Math.ceil(phaseStart / intervalMs);
+    const lastTick = Math.ceil((phaseStart + phaseMs) / intervalMs);
+    for (let tick = firstTick; tick < lastTick; tick++) {
+      const elapsed = tick * intervalMs - phaseStart;
+      const progress = transitionSeconds > 0 ? elapsed / (transitionSeconds * 1000) : 1;
+      const value = start + (end - start) * ease(transition.type, progress);
+
+      timeline.push({
+        time_seconds: round((tick * intervalMs) / 1000, 3),
+        phase: phase.name || `Phase ${i + 1}`,
+        target_pressure_bar: isFlow ? (limit > 0 ? limit : null) : round(value),
+        target_flow_ml_s: isFlow ? round(value) : (limit > 0 ? limit : null),
+        target_temperature_c: temperature,
+      });
+    }
+
+    // The next phase ramps from where this one ended
+    if (isFlow) {
+      lastFlow = end;
+      lastPressure = limit;
+    } else {
+      lastPressure = end;
+      lastFlow = limit;
+    }
+    phaseStart += phaseMs;
+  }
+
+  return {
+    sample_interval_ms: intervalMs,
+    total_duration_seconds: round(phaseStart / 1000, 2),
+    phases: predictedPhases,
+    timeline,
+  };
+}
+
+function rmse(pairs: [number, number][]): number | null {
+  if (pairs.length === 0) return null;
+  const sum = pairs.reduce((total, [a, b]) => total + (a - b) ** 2, 0);
+  return round(Math.sqrt(sum / pairs.length));
+}
+
+function controlledVariableAt(phases: PredictedPhase[], timeSeconds: number): 'pressure' | 'flow' | null {
+  for (let i = phases.length - 1; i >= 0; i--) {
+    if (timeSeconds >= phases[i].start_time_seconds) {
+      return phases[i].pump_target;
+    }
+  }
+  return null;
+}
+
+/**
+ * Add the actual values of a past shot to a preview, matched by time since shot start
+ */
+export function overlayShot(preview: ProfilePreview, shot: ShotData): ProfilePreview {
+  const samples = shot.samples;
+  const pressurePairs: [number, number][] = [];
+  const flowPairs: [number, number][] = [];
+  const temperaturePairs: [number, number][] = [];
+
+  let j = 0;
+  const timeline = preview.timeline.map(point => {
+    const timeMs = point.time_seconds * 1000;
+    while (j + 1 < samples.length && Math.abs((samples[j + 1].t || 0) - timeMs) <= Math.abs((samples[j].t || 0) - timeMs)) {
+      j++;
+    }
+    const sample = samples[j];
+    if (!sample || Math.abs((sample.t || 0) - timeMs) > shot.sampleInterval) {
+      return point;
+    }
+
+    // Only the controlled variable is a target; the other one is a limit
+    const controlled = controlledVariableAt(preview.phases, point.time_seconds);
+    if (controlled === 'pressure' && point.target_pressure_bar !== null && sample.cp !== undefined) {
+      pressurePairs.push([point.target_pressure_bar, sample.cp]);
+    }
+    if (controlled === 'flow' && point.target_flow_ml_s !== null && sample.pf !== undefined) {
+      flowPairs.push([point.target_flow_ml_s, sample.pf]);
+    }
+    if (sample.ct !== undefined && sample.ct > 0) {
+      temperaturePairs.push([point.target_temperature_c, sample.ct]);
+    }
+
+    return {
+      ...point,
+      actual_pressure_bar: sample.cp ?? 0,
+      actual_flow_ml_s: sample.pf ?? 0,
+      actual_temperature_c: sample.ct ?? 0,
+      actual_weight_g: sample.v ?? 0,
+    };
+  });
+
+  return {
+    ...preview,
+    timeline,
+    overlay: {
+      shot_id: shot.id,
+      shot_duration_seconds: shot.duration / 1000,
+      pressure_rmse_bar: rmse(pressurePairs),
+      flow_rmse_ml_s: rmse(flowPairs),
+      temperature_rmse_c: rmse(temperaturePairs),
+    },
+  };
+}
@@ -0,0 +1,153 @@
+// Safety envelope enforced in front of req:profiles:save
+// Absolute limits plus a maximum change per update relative to the previous revision
+
+export interface SafetyPolicy {
+  maxPressure: number;
+  maxFlow: number;
+  maxTotalDuration: number;
+  minTemperature: number;
+  maxTemperature: number;
+  maxTemperatureDelta: number;
+  maxPressureDelta: number;
+  maxFlowDelta: number;
+  maxDurationDelta: number;
+}
+
+export interface SafetyViolation {
+  rule: keyof SafetyPolicy;
+  path: string;
+  value: number;
+  limit: number;
+  message: string;
+}
+
+export interface SafetyVerdict {
+  allowed: boolean;
+  violations: SafetyViolation[];
+  policy: SafetyPolicy;
+  compared_to_previous: boolean;
+}
+
+export const DEFAULT_SAFETY_POLICY: SafetyPolicy = {
+  maxPressure: 10,
+  maxFlow: 8,
+  maxTotalDuration: 90,
+  minTemperature: 85,
+  maxTemperature: 97,
+  maxTemperatureDelta: 3,
+  maxPressureDelta: 2,
+  maxFlowDelta: 2,
+  maxDurationDelta: 20,
+};
+
+// Environment variable for each policy field
+const POLICY_ENV: { [K in keyof SafetyPolicy]: string } = {
+  maxPressure: 'GAGGIMATE_SAFETY_MAX_PRESSURE',
+  maxFlow: 'GAGGIMATE_SAFETY_MAX_FLOW',
+  maxTotalDuration: 'GAGGIMATE_SAFETY_MAX_TOTAL_DURATION',
+  minTemperature: 'GAGGIMATE_SAFETY_MIN_TEMPERATURE',
+  maxTemperature: 'GAGGIMATE_SAFETY_MAX_TEMPERATURE',
+  maxTemperatureDelta: 'GAGGIMATE_SAFETY_MAX_TEMPERATURE_DELTA',
+  maxPressureDelta: 'GAGGIMATE_SAFETY_MAX_PRESSURE_DELTA',
+  maxFlowDelta: 'GAGGIMATE_SAFETY_MAX_FLOW_DELTA',
+  maxDurationDelta: 'GAGGIMATE_SAFETY_MAX_DURATION_DELTA',
+};
+
+/**
+ * Read the safety policy from the environment, falling back to the defaults
+ */
+export function loadSafetyPolicy(env: NodeJS.ProcessEnv = process.env): SafetyPolicy {
+  const policy = { ...DEFAULT_SAFETY_POLICY };
+  for (const [key, name] of Object.entries(POLICY_ENV) as [keyof SafetyPolicy, string][]) {
+    const raw = env[name];
+    if (raw === undefined || raw === '') continue;
+    const value = parseFloat(raw);
+    if (Number.isNaN(value)) {
+      throw new Error(`Invalid ${name}: '${raw}' is not a number`);
+    }
+    policy[key] = value;
+  }
+  return policy;
+}
+
+interface ProfilePeaks {
+  temperature: number;
+  maxPressure: number;
+  maxFlow: number;
+  totalDuration: number;
+}
+
+function peaks(profile: any): ProfilePeaks {
+  const phases: any[] = Array.isArray(profile?.phases) ? profile.phases : [];
+  return {
+    temperature: profile?.temperature || 0,
+    maxPressure: Math.max(0, ...phases.map(phase => phase.pump?.pressure || 0)),
+    maxFlow: Math.max(0, ...phases.map(phase => phase.pump?.flow || 0)),
+    totalDuration: phases.reduce((total, phase) => total + (phase.duration || 0), 0),
+  };
+}
+
+/**
+ * Check a profile against the policy. Deltas are only checked when a previous profile is given.
+ */
+export function evaluateSafety(profile: any, previous: any | null, policy: SafetyPolicy): SafetyVerdict {
+  const violations: SafetyViolation[] = [];
+  const add = (rule: keyof SafetyPolicy, path: string, value: number, limit: number, message: string) => {
+    violations.push({ rule, path, value, limit, message });
+  };
+
+  const phases: any[] = Array.isArray(profile?.phases) ? profile.phases : [];
+  const temperatures = [
+    { path: 'temperature', value: profile?.temperature },
+    ...phases.map((phase, i) => ({ path: `phases.${i}.temperature`, value: phase.temperature })),
+  ];
+
+  for (const { path, value } of temperatures) {
+    if (typeof value !== 'number' || value === 0) continue;
+    if (value > policy.maxTemperature) {
+      add('maxTemperature', path, value, policy.maxTemperature, `Temperature ${value}°C is above ${policy.maxTemperature}°C`);
+    }
+    if (value < policy.minTemperature) {
+      add('minTemperature', path, value, policy.minTemperature, `Temperature ${value}°C is below ${policy.minTemperature}°C`);
+    }
+  }
+
+  phases.forEach((phase, i) => {
+    const pressure = phase.pump?.pressure || 0;
+    const flow = phase.pump?.flow || 0;
+    if (pressure > policy.maxPressure) {
+      add('maxPressure', `phases.${i}.pump.pressure`, pressure, policy.maxPressure, `Pressure ${pressure} bar is above ${policy.maxPressure} bar`);
+    }
+    if (flow > policy.maxFlow) {
+      add('maxFlow', `phases.${i}.pump.flow`, flow, policy.maxFlow, `Flow ${flow} ml/s is above ${policy.maxFlow} ml/s`);
+    }
+  });
+
+  const next = peaks(profile);
+  if (next.totalDuration > policy.maxTotalDuration) {
+    add('maxTotalDuration', 'phases', next.totalDuration, policy.maxTotalDuration, `Total duration ${next.totalDuration}s is above ${policy.maxTotalDuration}s`);
+  }
+
+  if (previous) {
+    const prev = peaks(previous);
+    const deltas: [keyof SafetyPolicy, string, number, number, string][] = [
+      ['maxTemperatureDelta', 'temperature', next.temperature, prev.temperature, '°C'],
+      ['maxPressureDelta', 'phases.*.pump.pressure', next.maxPressure, prev.maxPressure, ' bar'],
+      ['maxFlowDelta', 'phases.*.pump.flow', next.maxFlow, prev.maxFlow, ' ml/s'],
+      ['maxDurationDelta', 'phases.*.duration', next.totalDuration, prev.totalDuration, 's'],
+    ];
+    for (const [rule, path, value, before, unit] of deltas) {
+      const delta = Math.abs(value - before);
+      if (delta > policy[rule] + 1e-9) {
+        add(rule, path, delta, policy[rule], `Change of ${Math.round(delta * 10) / 10}${unit} from the previous profile exceeds ${policy[rule]}${unit} (was ${before}, now ${value})`);
+      }
+    }
+  }
+
+  return {
+    allowed: violations.length === 0,
+    violations,
+    policy,
+    compared_to_previous: previous !== null,
+  };
+}
@@ -0,0 +1,115 @@
+// Mapping between Gaggimate simple profiles and pro profiles
+// Simple phases only have a pump power (0-100 %) and a duration
+
+import { PUMP_OFF } from '../schemas/profile.js';
+
+// Pressure the pump reaches at 100 % power (OPV limited)
+const FULL_POWER_PRESSURE = 9;
+
+export interface ProfileConversion {
+  profile: any;
+  notes: string[];
+}
+
+function powerToPressure(power: number): number {
+  return Math.round(FULL_POWER_PRESSURE * Math.max(0, Math.min(power, 100)) / 100 * 10) / 10;
+}
+
+function pressureToPower(pressure: number): number {
+  return Math.round(Math.max(0, Math.min(pressure / FULL_POWER_PRESSURE, 1)) * 100);
+}
+
+/**
+ * Expand a simple profile into the equivalent pro phase list
+ */
+export function expandSimpleProfile(profile: any): ProfileConversion {
+  const notes: string[] = [];
+  const phases: any[] = Array.isArray(profile?.phases) ? profile.phases : [];
+
+  const expanded = phases.map((phase, i) => {
+    const label = phase.name || `Phase ${i + 1}`;
+    const power = typeof phase.pump === 'number' ? phase.pump : 100;
+    if (typeof phase.pump !== 'number') {
+      notes.push(`${label}: no pump power, assuming 100 %`);
+    }
+    const pressure = powerToPressure(power);
+    if (power > 0 && power < 100) {
+      notes.push(`${label}: ${power} % pump power approximated as ${pressure} bar`);
+    }
+
+    return {
+      name: label,
+      phase: phase.phase || 'brew',
+      valve: phase.valve ?? 1,
+      duration: phase.duration,
+      temperature: phase.temperature || profile.temperature,
+      transition: { type: 'instant', duration: 0, adaptive: true },
+      pump: power > 0 ? { target: 'pressure', pressure, flow: 0 } : PUMP_OFF,
+      targets: [],
+    };
+  });
+
+  return {
+    profile: {
+      ...profile,
+      type: 'pro',
+      phases: expanded,
+    },
+    notes,
+  };
+}
+
+/**
+ * Collapse a pro profile into a simple one. Anything simple profiles cannot express is listed in notes.
+ */
+export function collapseToSimpleProfile(profile: any): ProfileConversion {
+  const notes: string[] = [];
+  const phases: any[] = Array.isArray(profile?.phases) ? profile.phases : [];
+
+  const collapsed = phases.map((phase, i) => {
+    const label = phase.name || `Phase ${i + 1}`;
+    const pump = phase.pump && typeof phase.pump === 'object' ? phase.pump : null;
+
+    let power = typeof phase.pump === 'number' ? phase.pump : 100;
+    if (pump) {
+      if (pump.target === 'flow') {
+        notes.push(`${label}: flow target ${pump.flow} ml/s cannot be expressed, using full pump power`);
+      } else {
+        power = pressureToPower(pump.pressure || 0);
+        if (pump.pressure > FULL_POWER_PRESSURE) {
+          notes.push(`${label}: ${pump.pressure} bar is above what full pump power reaches (${FULL_POWER_PRESSURE} bar)`);
+        }
+      }
+      const limit = pump.target === 'flow' ? pump.pressure : pump.flow;
+      if (limit > 0) {
+        notes.push(`${label}: ${pump.target === 'flow' ? 'pressure' : 'flow'} limit dropped`);
+      }
+    }
+    if (phase.transition && phase.transition.type !== 'instant' && phase.transition.duration > 0) {
+      notes.push(`${label}: ${phase.transition.type} transition over ${phase.transition.duration}s dropped`);
+    }
+    if (Array.isArray(phase.targets) && phase.targets.length > 0) {
+      notes.push(`${label}: ${phase.targets.length} stop condition(s) dropped`);
+    }
+    if (phase.temperature && phase.temperature !== profile.temperature) {
+      notes.push(`${label}: per-phase temperature ${phase.temperature}°C dropped`);
+    }
+
+    return {
+      name: label,
+      phase: phase.phase || 'brew',
+      valve: phase.valve ?? 1,
+      duration: phase.duration,
+      pump: power,
+    };
+  });
+
+  return {
+    profile: {
+      ...profile,
+      type: 'simple',
+      phases: collapsed,
+    },
+    notes,
+  };
+}
@@ -0,0 +1,36 @@
+// Zod schemas for the local bean registry tools
+
+import { z } from 'zod';
+
+export const ROAST_LEVELS = ['light', 'medium-light', 'medium', 'medium-dark', 'dark'] as const;
+
+const ROAST_DATE = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'roastDate must be YYYY-MM-DD');
+
+export const BeanInputSchema = z.object({
+  name: z.string().min(1, 'name is required').max(100),
+  roaster: z.string().max(100).optional(),
+  origin: z.string().max(100).optional(),
+  process: z.string().max(50).optional(),
+  roastLevel: z.enum(ROAST_LEVELS).optional(),
+  roastDate: ROAST_DATE.optional(),
+  bagWeight: z.number().positive().max(5000).optional(),
+  notes: z.string().max(1000).optional(),
+});
+
+export const BeanUpdateSchema = BeanInputSchema.partial().extend({
+  beanId: z.string().min(1, 'beanId is required'),
+  // Correct the tracked remainder, e.g. after weighing the bag
+  remainingWeight: z.number().min(0).max(5000).optional(),
+  // Finished bags stay in the registry for history but are hidden from listings
+  finished: z.boolean().optional(),
+});
+
+export const ShotBeanAssignmentSchema = z.object({
+  shotId: z.string().min(1, 'shotId is required'),
+  beanId: z.string().min(1, 'beanId is required'),
+  doseIn: z.number().positive().max(50).optional(),
+});
+
+export type BeanInput = z.infer<typeof BeanInputSchema>;
+export type BeanUpdate = z.infer<typeof BeanUpdateSchema>;
+export type ShotBeanAssignment = z.infer<typeof ShotBeanAssignmentSchema>;
@@ -0,0 +1,16 @@
+import { z } from 'zod';
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * Flatten zod issues into field paths the model can act on
+ */
+export function formatZodIssues(error: z.ZodError): ValidationIssue[] {
+  return error.issues.map(issue => ({
+    path: issue.path.join('.') || '(root)',
+    message: issue.message,
+  }));
+}
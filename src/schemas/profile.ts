@@ -0,0 +1,136 @@
+// Zod schemas for Gaggimate pro profiles
+// Used both to validate AI input before req:profiles:save and to check profiles read from the device
+
+import { z } from 'zod';
+import { ValidationIssue, formatZodIssues } from './issues.js';
+
+export const PROFILE_LIMITS = {
+  minTemperature: 60,
+  maxTemperature: 100,
+  maxPressure: 12,
+  maxFlow: 10,
+  maxPhaseDuration: 120,
+  maxTotalDuration: 180,
+  maxTransitionDuration: 30,
+  maxPhases: 20,
+  maxTargetValue: {
+    pressure: 12,
+    flow: 10,
+    volumetric: 200,
+    pumped: 500,
+  },
+};
+
+export const PHASE_TYPES = ['preinfusion', 'brew'] as const;
+export const PUMP_TARGETS = ['pressure', 'flow'] as const;
+export const TRANSITION_TYPES = ['linear', 'ease-out', 'ease-in', 'instant'] as const;
+export const TARGET_TYPES = ['pressure', 'flow', 'volumetric', 'pumped'] as const;
+export const TARGET_OPERATORS = ['gte', 'lte'] as const;
+
+export const PumpSchema = z.object({
+  target: z.enum(PUMP_TARGETS),
+  pressure: z.number().min(0).max(PROFILE_LIMITS.maxPressure).default(0),
+  flow: z.number().min(0).max(PROFILE_LIMITS.maxFlow).default(0),
+}).superRefine((pump, ctx) => {
+  if (pump.target === 'pressure' && pump.pressure <= 0 && pump.flow <= 0) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['pressure'],
+      message: 'Pressure-targeted pump needs a pressure above 0 bar (or a flow limit); use pump: 0 for a soak',
+    });
+  }
+  if (pump.target === 'flow' && pump.flow <= 0 && pump.pressure <= 0) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['flow'],
+      message: 'Flow-targeted pump needs a flow above 0 ml/s (or a pressure limit); use pump: 0 for a soak',
+    });
+  }
+});
+
+// Soak / bloom phases turn the pump off with pump: 0 (the device's pump power in percent)
+export const PUMP_OFF = 0;
+
+export const TransitionSchema = z.object({
+  type: z.enum(TRANSITION_TYPES),
+  duration: z.number().min(0).max(PROFILE_LIMITS.maxTransitionDuration).default(0),
+  adaptive: z.boolean().default(true),
+});
+
+export const TargetSchema = z.object({
+  type: z.enum(TARGET_TYPES),
+  operator: z.enum(TARGET_OPERATORS).default('gte'),
+  value: z.number().min(0),
+}).superRefine((target, ctx) => {
+  const max = PROFILE_LIMITS.maxTargetValue[target.type];
+  if (target.value > max) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.too_big,
+      path: ['value'],
+      maximum: max,
+      inclusive: true,
+      type: 'number',
+      message: `${target.type} target must be at most ${max}`,
+    });
+  }
+});
+
+export const PhaseSchema = z.object({
+  name: z.string().min(1, 'Phase name is required'),
+  phase: z.enum(PHASE_TYPES),
+  valve: z.union([z.literal(0), z.literal(1)]).default(1),
+  duration: z.number().positive().max(PROFILE_LIMITS.maxPhaseDuration),
+  temperature: z.number().min(0).max(PROFILE_LIMITS.maxTemperature).optional(),
+  transition: TransitionSchema.optional(),
+  pump: z.union([z.literal(PUMP_OFF), PumpSchema]).optional(),
+  targets: z.array(TargetSchema).default([]),
+});
+
+function checkTotalDuration(profile: { phases: { duration: number }[] }, ctx: z.RefinementCtx): void {
+  const totalDuration = profile.phases.reduce((total, phase) => total + phase.duration, 0);
+  if (totalDuration > PROFILE_LIMITS.maxTotalDuration) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['phases'],
+      message: `Total duration ${totalDuration}s exceeds ${PROFILE_LIMITS.maxTotalDuration}s`,
+    });
+  }
+}
+
+export const ProProfileSchema = z.object({
+  id: z.string().optional(),
+  label: z.string().min(1),
+  type: z.literal('pro'),
+  description: z.string().default(''),
+  temperature: z.number().min(PROFILE_LIMITS.minTemperature).max(PROFILE_LIMITS.maxTemperature),
+  favorite: z.boolean().default(false),
+  selected: z.boolean().default(false),
+  utility: z.boolean().default(false),
+  phases: z.array(PhaseSchema).min(1).max(PROFILE_LIMITS.maxPhases),
+}).passthrough().superRefine(checkTotalDuration);
+
+// Phases as accepted from the model: everything but name/phase/duration is optional
+export const AIProfileInputSchema = z.object({
+  slot: z.string().optional(),
+  temperature: z.number({ required_error: 'temperature is required' })
+    .min(PROFILE_LIMITS.minTemperature)
+    .max(PROFILE_LIMITS.maxTemperature),
+  phases: z.array(PhaseSchema, { required_error: 'phases array is required' })
+    .min(1, 'At least one phase is required')
+    .max(PROFILE_LIMITS.maxPhases),
+}).superRefine(checkTotalDuration);
+
+export type ProProfile = z.infer<typeof ProProfileSchema>;
+export type ProfilePhase = z.infer<typeof PhaseSchema>;
+export type AIProfileInput = z.infer<typeof AIProfileInputSchema>;
+
+/**
+ * Check a profile read from the device. Simple profiles have no phases and are not validated here.
+ */
+export function validateDeviceProfile(profile: any): ValidationIssue[] {
+  if (!profile || profile.type !== 'pro') {
+    return [];
+  }
+  const result = ProProfileSchema.safeParse(profile);
+  return result.success ? [] : formatZodIssues(result.error);
+}
@@ -0,0 +1,123 @@
+// Zod schema for list_shot_history filters and sorting
+// Filters apply to the shot index only, so no shot file has to be downloaded
+
+import { z } from 'zod';
+import { ShotListItem } from '../parsers/binaryIndex.js';
+
+export const SHOT_SORT_FIELDS = ['timestamp', 'duration', 'volume', 'rating', 'id'] as const;
+export const SORT_ORDERS = ['asc', 'desc'] as const;
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+// Unix seconds, or any date string Date.parse understands (YYYY-MM-DD, ISO 8601).
+// With endOfDay a date-only string covers that whole day.
+function dateSchema(endOfDay: boolean) {
+  return z.union([z.number(), z.string()]).transform((value, ctx) => {
+    if (typeof value === 'number') return value;
+    const parsed = Date.parse(value);
+    if (Number.isNaN(parsed)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid date '${value}'` });
+      return z.NEVER;
+    }
+    const seconds = Math.floor(parsed / 1000);
+    return endOfDay && DATE_ONLY.test(value) ? seconds + 86399 : seconds;
+  });
+}
+
+export const ShotHistoryQuerySchema = z.object({
+  limit: z.number().int().positive().optional(),
+  offset: z.number().int().min(0).optional(),
+  profileId: z.string().optional(),
+  profileName: z.string().optional(),
+  from: dateSchema(false).optional(),
+  to: dateSchema(true).optional(),
+  minDuration: z.number().min(0).optional(),
+  maxDuration: z.number().min(0).optional(),
+  minVolume: z.number().min(0).optional(),
+  maxVolume: z.number().min(0).optional(),
+  minRating: z.number().int().min(0).max(5).optional(),
+  maxRating: z.number().int().min(0).max(5).optional(),
+  completed: z.boolean().optional(),
+  hasNotes: z.boolean().optional(),
+  sortBy: z.enum(SHOT_SORT_FIELDS).default('timestamp'),
+  order: z.enum(SORT_ORDERS).default('desc'),
+});
+
+export type ShotHistoryQuery = z.infer<typeof ShotHistoryQuerySchema>;
+
+export const MAX_TREND_SHOTS = 100;
+// Candidates shot_trends looks at before giving up on filling the limit (bean filters skip most)
+export const MAX_TREND_SCAN = 2 * MAX_TREND_SHOTS;
+
+// shot_trends selects shots with the same filters, plus a bean from the shot notes
+export const ShotTrendsQuerySchema = ShotHistoryQuerySchema.pick({
+  profileId: true,
+  profileName: true,
+  from: true,
+  to: true,
+}).extend({
+  bean: z.string().min(1).optional(),
+  limit: z.number().int().min(2).max(MAX_TREND_SHOTS).default(30),
+  window: z.number().int().min(2).max(20).default(5),
+});
+
+export type ShotTrendsQuery = z.infer<typeof ShotTrendsQuerySchema>;
+
+export interface ShotHistoryPage {
+  shots: ShotListItem[];
+  total_matching: number;
+}
+
+function inRange(value: number | null, min: number | undefined, max: number | undefined): boolean {
+  if (min === undefined && max === undefined) return true;
+  if (value === null) return false;
+  return (min === undefined || value >= min) && (max === undefined || value <= max);
+}
+
+function sortValue(shot: ShotListItem, field: ShotHistoryQuery['sortBy']): number | null {
+  switch (field) {
+    case 'duration':
+      return shot.duration;
+    case 'volume':
+      return shot.volume;
+    case 'rating':
+      return shot.rating;
+    case 'id':
+      return Number(shot.id);
+    default:
+      return shot.timestamp;
+  }
+}
+
+/**
+ * Filter, sort and page a shot list.
+ * Durations are in seconds, volumes in grams; unrated shots never match a rating range.
+ * Shots without a value for the sort field sort last; ties are broken newest first.
+ */
+export function queryShotList(shots: ShotListItem[], query: ShotHistoryQuery): ShotHistoryPage {
+  const profileName = query.profileName?.toLowerCase();
+
+  const matching = shots.filter(shot =>
+    (query.profileId === undefined || shot.profileId === query.profileId) &&
+    (profileName === undefined || shot.profile.toLowerCase().includes(profileName)) &&
+    inRange(shot.timestamp, query.from, query.to) &&
+    inRange(shot.duration / 1000, query.minDuration, query.maxDuration) &&
+    inRange(shot.volume, query.minVolume, query.maxVolume) &&
+    inRange(shot.rating, query.minRating, query.maxRating) &&
+    (query.completed === undefined || shot.incomplete !== query.completed) &&
+    (query.hasNotes === undefined || shot.hasNotes === query.hasNotes));
+
+  const direction = query.order === 'asc' ? 1 : -1;
+  matching.sort((a, b) => {
+    const left = sortValue(a, query.sortBy);
+    const right = sortValue(b, query.sortBy);
+    if (left === null || right === null) {
+      return left === right ? b.timestamp - a.timestamp : left === null ? 1 : -1;
+    }
+    return (left - right) * direction || (b.timestamp - a.timestamp);
+  });
+
+  const offset = query.offset ?? 0;
+  const page = query.limit !== undefined ? matching.slice(offset, offset + query.limit) : matching.slice(offset);
+  return { shots: page, total_matching: matching.length };
+}
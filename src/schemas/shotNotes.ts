@@ -0,0 +1,64 @@
+// Zod schema for shot notes written back to the device
+// Field names on the device match the Gaggimate web UI shot notes form
+
+import { z } from 'zod';
+
+export const BALANCE_TASTE_VALUES = ['bitter', 'balanced', 'sour'] as const;
+
+export const ShotNotesUpdateSchema = z.object({
+  shotId: z.string().min(1, 'shotId is required'),
+  doseIn: z.number().positive().max(50).optional(),
+  doseOut: z.number().positive().max(200).optional(),
+  grindSetting: z.union([z.string(), z.number()]).transform(String).optional(),
+  beanType: z.string().max(100).optional(),
+  beanId: z.string().max(64).optional(),
+  roastDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'roastDate must be YYYY-MM-DD').optional(),
+  tds: z.number().positive().max(25).optional(),
+  balanceTaste: z.enum(BALANCE_TASTE_VALUES).optional(),
+  notes: z.string().max(1000).optional(),
+  rating: z.number().int().min(0).max(5).optional(),
+  merge: z.boolean().default(true),
+});
+
+export type ShotNotesUpdate = z.infer<typeof ShotNotesUpdateSchema>;
+
+export interface DeviceShotNotes {
+  id?: string;
+  rating?: number;
+  beanType?: string;
+  doseIn?: number | string;
+  doseOut?: number | string;
+  ratio?: number | string;
+  grindSetting?: string;
+  balanceTaste?: string;
+  beanId?: string;
+  roastDate?: string;
+  tds?: number;
+  notes?: string;
+  [key: string]: any;
+}
+
+/**
+ * Build the notes object sent with req:history:notes:save.
+ * When merging, fields that were not provided keep their existing values.
+ */
+export function buildDeviceShotNotes(update: ShotNotesUpdate, existing: DeviceShotNotes | null): DeviceShotNotes {
+  const base: DeviceShotNotes = update.merge && existing ? { ...existing } : {};
+  const { shotId, merge, ...fields } = update;
+
+  for (const [key, value] of Object.entries(fields)) {
+    if (value !== undefined) {
+      base[key] = value;
+    }
+  }
+
+  // Keep the ratio consistent with the doses
+  const doseIn = Number(base.doseIn);
+  const doseOut = Number(base.doseOut);
+  if (doseIn > 0 && doseOut > 0) {
+    base.ratio = Math.round((doseOut / doseIn) * 100) / 100;
+  }
+
+  base.id = shotId;
+  return base;
+}
@@ -0,0 +1,186 @@
+// Buffers evt:status samples of a running shot into the same ShotData shape
+// produced by parseBinaryShot, so live shots go through the same transformer
+
+import { ShotData, ShotSample, PhaseTransition } from '../parsers/binaryShot.js';
+import { StatusMonitor, MachineStatus } from './statusMonitor.js';
+
+const DEFAULT_SAMPLE_INTERVAL = 250;
+
+export interface LiveShot {
+  startedAt: number;
+  endedAt: number | null;
+  shot: ShotData;
+}
+
+export interface WaitForShotOptions {
+  timeoutMs: number;
+  signal?: AbortSignal;
+  onProgress?: (shot: LiveShot) => void;
+}
+
+interface Recording {
+  startedAt: number;
+  profileId: string;
+  profileName: string;
+  samples: ShotSample[];
+  phases: PhaseTransition[];
+  lastPhaseLabel: string | null;
+}
+
+function toShotSample(status: MachineStatus, startedAt: number): ShotSample {
+  const receivedAt = Date.parse(status.received_at);
+  const sample: ShotSample = {
+    t: Math.max(0, receivedAt - startedAt),
+  };
+
+  if (status.target_temperature_c !== null) sample.tt = status.target_temperature_c;
+  if (status.current_temperature_c !== null) sample.ct = status.current_temperature_c;
+  if (status.pressure_bar !== null) sample.cp = status.pressure_bar;
+  // The status stream reports puck flow, which the transformer reads from pf
+  if (status.flow_ml_s !== null) sample.pf = status.flow_ml_s;
+  if (status.weight_g !== null) sample.v = status.weight_g;
+
+  return sample;
+}
+
+// Average spacing between samples, used where the transformer integrates over time
+function estimateSampleInterval(samples: ShotSample[]): number {
+  if (samples.length < 2) return DEFAULT_SAMPLE_INTERVAL;
+  const span = (samples[samples.length - 1].t || 0) - (samples[0].t || 0);
+  return Math.max(1, Math.round(span / (samples.length - 1)));
+}
+
+export class LiveShotRecorder {
+  private recording: Recording | null = null;
+  private lastShot: LiveShot | null = null;
+  private completionWaiters = new Set<(shot: LiveShot) => void>();
+  private progressWaiters = new Set<(shot: LiveShot) => void>();
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(private readonly monitor: StatusMonitor) {}
+
+  start(): void {
+    if (this.unsubscribe) return;
+    this.unsubscribe = this.monitor.onStatus(status => this.handleStatus(status));
+  }
+
+  stop(): void {
+    if (this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = null;
+    }
+  }
+
+  /**
+   * Snapshot of the shot currently being pulled, or null if none is running
+   */
+  getCurrentShot(): LiveShot | null {
+    return this.recording ? this.snapshot(this.recording, null) : null;
+  }
+
+  /**
+   * The most recently completed live shot, if one was seen since startup
+   */
+  getLastShot(): LiveShot | null {
+    return this.lastShot;
+  }
+
+  /**
+   * Resolve when the running shot (or the next one to start) ends.
+   * Resolves with null on timeout or abort.
+   */
+  waitForShot(options: WaitForShotOptions): Promise<LiveShot | null> {
+    return new Promise(resolve => {
+      let timeoutHandle: NodeJS.Timeout | null = null;
+
+      const finish = (shot: LiveShot | null) => {
+        if (timeoutHandle) clearTimeout(timeoutHandle);
+        this.completionWaiters.delete(onComplete);
+        if (options.onProgress) this.progressWaiters.delete(options.onProgress);
+        options.signal?.removeEventListener('abort', onAbort);
+        resolve(shot);
+      };
+      const onComplete = (shot: LiveShot) => finish(shot);
+      const onAbort = () => finish(null);
+
+      this.completionWaiters.add(onComplete);
+      if (options.onProgress) this.progressWaiters.add(options.onProgress);
+      options.signal?.addEventListener('abort', onAbort);
+      timeoutHandle = setTimeout(() => finish(null), options.timeoutMs);
+    });
+  }
+
+  private handleStatus(status: MachineStatus): void {
+    if (status.shot_running) {
+      if (!this.recording) {
+        this.recording = {
+          startedAt: Date.parse(status.received_at),
+          profileId: status.selected_profile.id || '',
+          profileName: status.selected_profile.name || '',
+          samples: [],
+          phases: [],
+          lastPhaseLabel: null,
+        };
+      }
+
+      const recording = this.recording;
+      const label = status.process?.label || null;
+      if (label && label !== recording.lastPhaseLabel) {
+        recording.phases.push({
+          sampleIndex: recording.samples.length,
+          phaseNumber: recording.phases.length,
+          phaseName: label,
+        });
+        recording.lastPhaseLabel = label;
+      }
+
+      const sample = toShotSample(status, recording.startedAt);
+      if (recording.phases.length > 0) {
+        sample.phase = recording.phases[recording.phases.length - 1].phaseNumber;
+      }
+      recording.samples.push(sample);
+
+      if (this.progressWaiters.size > 0) {
+        const snapshot = this.snapshot(recording, null);
+        for (const waiter of this.progressWaiters) {
+          waiter(snapshot);
+        }
+      }
+      return;
+    }
+
+    if (this.recording) {
+      const finished = this.snapshot(this.recording, Date.parse(status.received_at));
+      this.recording = null;
+      this.lastShot = finished;
+      for (const waiter of [...this.completionWaiters]) {
+        waiter(finished);
+      }
+    }
+  }
+
+  private snapshot(recording: Recording, endedAt: number | null): LiveShot {
+    const samples = [...recording.samples];
+    const lastSample = samples[samples.length - 1];
+    const weight = lastSample?.v && lastSample.v > 0 ? lastSample.v : null;
+
+    const shot: ShotData = {
+      id: 'live',
+      version: 0,
+      fieldsMask: 0,
+      sampleCount: samples.length,
+      sampleInterval: estimateSampleInterval(samples),
+      profileId: recording.profileId,
+      profileName: recording.profileName,
+      timestamp: Math.floor(recording.startedAt / 1000),
+      rating: 0,
+      duration: (endedAt ?? Date.now()) - recording.startedAt,
+      weight,
+      samples,
+      phases: [...recording.phases],
+      incomplete: endedAt === null,
+    };
+
+    return { startedAt: recording.startedAt, endedAt, shot };
+  }
+}
@@ -0,0 +1,157 @@
+// Background subscription to the Gaggimate evt:status stream
+// Keeps the latest status event so tools can answer without a round trip
+
+import { GaggimateClient, GaggimateMessage } from '../client/gaggimateClient.js';
+
+// Temperature window (in °C) around the target that counts as "ready"
+const AT_TEMPERATURE_TOLERANCE = 1.0;
+
+// Mode numbers as reported in evt:status "m"
+const MACHINE_MODES: { [key: number]: string } = {
+  0: 'standby',
+  1: 'brew',
+  2: 'steam',
+  3: 'water',
+  4: 'grind',
+};
+
+export interface MachineProcess {
+  active: boolean;
+  state: string | null;
+  label: string | null;
+  elapsed_seconds: number | null;
+  target_type: string | null;
+  progress: number | null;
+  target: number | null;
+}
+
+export interface MachineStatus {
+  received_at: string;
+  age_seconds: number;
+  mode: string;
+  mode_id: number | null;
+  current_temperature_c: number | null;
+  target_temperature_c: number | null;
+  at_temperature: boolean | null;
+  pressure_bar: number | null;
+  flow_ml_s: number | null;
+  weight_g: number | null;
+  selected_profile: {
+    id: string | null;
+    name: string | null;
+  };
+  shot_running: boolean;
+  process: MachineProcess | null;
+  raw: GaggimateMessage;
+}
+
+export type StatusListener = (status: MachineStatus) => void;
+
+function toNumber(value: any): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+function toStringOrNull(value: any): string | null {
+  return typeof value === 'string' && value.length > 0 ? value : null;
+}
+
+/**
+ * Normalize a raw evt:status message into the shape returned to the AI
+ */
+export function normalizeStatus(message: GaggimateMessage, receivedAt: number = Date.now()): MachineStatus {
+  const modeId = toNumber(message.m);
+  const currentTemp = toNumber(message.ct);
+  const targetTemp = toNumber(message.tt);
+
+  let process: MachineProcess | null = null;
+  if (message.process && typeof message.process === 'object') {
+    const p = message.process;
+    process = {
+      active: !!p.a,
+      state: toStringOrNull(p.s),
+      label: toStringOrNull(p.l),
+      elapsed_seconds: toNumber(p.e) !== null ? p.e / 1000 : null,
+      target_type: toStringOrNull(p.tt),
+      progress: toNumber(p.pp),
+      target: toNumber(p.pt),
+    };
+  }
+
+  return {
+    received_at: new Date(receivedAt).toISOString(),
+    age_seconds: Math.max(0, (Date.now() - receivedAt) / 1000),
+    mode: modeId !== null ? (MACHINE_MODES[modeId] || `unknown(${modeId})`) : 'unknown',
+    mode_id: modeId,
+    current_temperature_c: currentTemp,
+    target_temperature_c: targetTemp,
+    at_temperature: currentTemp !== null && targetTemp !== null && targetTemp > 0
+      ? Math.abs(currentTemp - targetTemp) <= AT_TEMPERATURE_TOLERANCE
+      : null,
+    pressure_bar: toNumber(message.pr),
+    flow_ml_s: toNumber(message.fl),
+    weight_g: toNumber(message.cw),
+    selected_profile: {
+      id: toStringOrNull(message.puid),
+      name: toStringOrNull(message.p),
+    },
+    shot_running: modeId === 1 && !!process?.active,
+    process,
+    raw: message,
+  };
+}
+
+export class StatusMonitor {
+  private latest: GaggimateMessage | null = null;
+  private latestAt = 0;
+  private listeners = new Set<StatusListener>();
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(private readonly client: GaggimateClient) {}
+
+  /**
+   * Subscribe to the client and open the connection in the background
+   */
+  start(): void {
+    if (this.unsubscribe) return;
+
+    this.unsubscribe = this.client.subscribe((message) => {
+      if (message.tp !== 'evt:status') return;
+
+      this.latest = message;
+      this.latestAt = Date.now();
+
+      const status = normalizeStatus(message, this.latestAt);
+      for (const listener of this.listeners) {
+        try {
+          listener(status);
+        } catch (error) {
+          console.error('Status listener failed:', error);
+        }
+      }
+    });
+
+    // Reconnects are handled by the client; the device may simply be off
+    this.client.connect().catch(() => {});
+  }
+
+  stop(): void {
+    if (this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = null;
+    }
+  }
+
+  /**
+   * Latest status, or null if no evt:status has been received yet
+   */
+  getStatus(): MachineStatus | null {
+    return this.latest ? normalizeStatus(this.latest, this.latestAt) : null;
+  }
+
+  onStatus(listener: StatusListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
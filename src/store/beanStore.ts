@@ -0,0 +1,210 @@
+// Local registry of coffee beans and the shots pulled with them
+// Tracks how much of each bag is left by subtracting the dose of every associated shot
+
+import { readJsonFile, writeJsonFile } from './jsonFile.js';
+import { SerialQueue } from './serialQueue.js';
+import { BeanInput, BeanUpdate } from '../schemas/bean.js';
+import { daysOffRoast } from '../utils/dates.js';
+import { round } from '../utils/math.js';
+
+const STORE_FORMAT_VERSION = 1;
+
+export interface BeanShot {
+  shot_id: string;
+  dose_g: number | null;
+  shot_timestamp: string;
+  days_off_roast: number | null;
+  profile_id: string;
+  profile_name: string;
+  associated_at: string;
+}
+
+export interface Bean {
+  id: string;
+  name: string;
+  roaster: string | null;
+  origin: string | null;
+  process: string | null;
+  roast_level: string | null;
+  roast_date: string | null;
+  bag_weight_g: number | null;
+  remaining_g: number | null;
+  notes: string | null;
+  finished: boolean;
+  created_at: string;
+  updated_at: string;
+  shots: BeanShot[];
+}
+
+// What the registry needs to know about a shot to associate it
+export interface BeanShotInput {
+  shotId: string;
+  dose: number | null;
+  timestamp: number; // unix seconds
+  profileId: string;
+  profileName: string;
+}
+
+export interface ShotAssociation {
+  bean: Bean;
+  shot: BeanShot;
+  // Bean the shot was moved away from, if it was associated before
+  previous_bean_id: string | null;
+}
+
+interface StoreFile {
+  format: number;
+  beans: Bean[];
+}
+
+function slugify(text: string): string {
+  return text.toLowerCase().normalize('NFKD').replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'bean';
+}
+
+export class BeanStore {
+  // Serializes read-modify-write cycles on the file
+  private readonly queue = new SerialQueue();
+
+  constructor(private readonly filePath: string) {}
+
+  /**
+   * Register a bag. The id is derived from name and roast date so the model can read it.
+   */
+  addBean(input: BeanInput): Promise<Bean> {
+    return this.queue.run(async () => {
+      const data = await this.read();
+      const baseId = slugify([input.name, input.roastDate].filter(Boolean).join(' '));
+      let id = baseId;
+      for (let n = 2; data.beans.some(bean => bean.id === id); n++) {
+        id = `${baseId}-${n}`;
+      }
+
+      const now = new Date().toISOString();
+      const bean: Bean = {
+        id,
+        name: input.name,
+        roaster: input.roaster ?? null,
+        origin: input.origin ?? null,
+        process: input.process ?? null,
+        roast_level: input.roastLevel ?? null,
+        roast_date: input.roastDate ?? null,
+        bag_weight_g: input.bagWeight ?? null,
+        remaining_g: input.bagWeight ?? null,
+        notes: input.notes ?? null,
+        finished: false,
+        created_at: now,
+        updated_at: now,
+        shots: [],
+      };
+      data.beans.push(bean);
+      await writeJsonFile(this.filePath, data);
+      return bean;
+    });
+  }
+
+  async listBeans(includeFinished: boolean = false): Promise<Bean[]> {
+    await this.queue.settled();
+    const data = await this.read();
+    return data.beans.filter(bean => includeFinished || !bean.finished);
+  }
+
+  async getBean(beanId: string): Promise<Bean | null> {
+    await this.queue.settled();
+    const data = await this.read();
+    return data.beans.find(bean => bean.id === beanId) ?? null;
+  }
+
+  /**
+   * Change fields of a bean. A new bag weight recomputes the remainder from the doses of the
+   * bean's shots unless the remainder is given explicitly; a given remainder is kept within the bag.
+   */
+  updateBean(update: BeanUpdate): Promise<Bean | null> {
+    return this.queue.run(async () => {
+      const data = await this.read();
+      const bean = data.beans.find(b => b.id === update.beanId);
+      if (!bean) {
+        return null;
+      }
+
+      if (update.name !== undefined) bean.name = update.name;
+      if (update.roaster !== undefined) bean.roaster = update.roaster;
+      if (update.origin !== undefined) bean.origin = update.origin;
+      if (update.process !== undefined) bean.process = update.process;
+      if (update.roastLevel !== undefined) bean.roast_level = update.roastLevel;
+      if (update.notes !== undefined) bean.notes = update.notes;
+      if (update.finished !== undefined) bean.finished = update.finished;
+      if (update.roastDate !== undefined) {
+        bean.roast_date = update.roastDate;
+        for (const shot of bean.shots) {
+          shot.days_off_roast = daysOffRoast(bean.roast_date, Date.parse(shot.shot_timestamp) / 1000);
+        }
+      }
+      if (update.bagWeight !== undefined) {
+        const used = bean.shots.reduce((total, shot) => total + (shot.dose_g ?? 0), 0);
+        bean.bag_weight_g = update.bagWeight;
+        bean.remaining_g = round(Math.max(0, update.bagWeight - used), 1);
+      }
+      if (update.remainingWeight !== undefined) {
+        bean.remaining_g = round(Math.min(Math.max(0, update.remainingWeight), bean.bag_weight_g ?? Infinity), 1);
+      }
+
+      bean.updated_at = new Date().toISOString();
+      await writeJsonFile(this.filePath, data);
+      return bean;
+    });
+  }
+
+  /**
+   * Associate a shot with a bean and take its dose off the bag.
+   * A shot belongs to one bean: moving it, or changing its dose, gives the old dose back first.
+   * The remainder stays between zero and the bag weight.
+   */
+  associateShot(beanId: string, input: BeanShotInput): Promise<ShotAssociation | null> {
+    return this.queue.run(async () => {
+      const data = await this.read();
+      const bean = data.beans.find(b => b.id === beanId);
+      if (!bean) {
+        return null;
+      }
+
+      let previousBeanId: string | null = null;
+      for (const other of data.beans) {
+        const existing = other.shots.find(shot => shot.shot_id === input.shotId);
+        if (!existing) continue;
+        if (other.id !== bean.id) previousBeanId = other.id;
+        if (existing.dose_g !== null && other.remaining_g !== null) {
+          other.remaining_g = round(Math.min(other.remaining_g + existing.dose_g, other.bag_weight_g ?? Infinity), 1);
+        }
+        other.shots = other.shots.filter(shot => shot.shot_id !== input.shotId);
+        other.updated_at = new Date().toISOString();
+      }
+
+      const shot: BeanShot = {
+        shot_id: input.shotId,
+        dose_g: input.dose,
+        shot_timestamp: new Date(input.timestamp * 1000).toISOString(),
+        days_off_roast: daysOffRoast(bean.roast_date, input.timestamp),
+        profile_id: input.profileId,
+        profile_name: input.profileName,
+        associated_at: new Date().toISOString(),
+      };
+      bean.shots.push(shot);
+      bean.shots.sort((a, b) => Date.parse(a.shot_timestamp) - Date.parse(b.shot_timestamp));
+      if (input.dose !== null && bean.remaining_g !== null) {
+        bean.remaining_g = round(Math.max(0, bean.remaining_g - input.dose), 1);
+      }
+      bean.updated_at = new Date().toISOString();
+
+      await writeJsonFile(this.filePath, data);
+      return { bean, shot, previous_bean_id: previousBeanId };
+    });
+  }
+
+  private async read(): Promise<StoreFile> {
+    const data = await readJsonFile<StoreFile>(this.filePath, { format: STORE_FORMAT_VERSION, beans: [] });
+    if (!Array.isArray(data.beans)) {
+      data.beans = [];
+    }
+    return data;
+  }
+}
@@ -0,0 +1,29 @@
+// Small helpers for the local JSON stores kept under the data directory
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Read a JSON file, returning the fallback if it does not exist yet
+ */
+export async function readJsonFile<T>(filePath: string, fallback: T): Promise<T> {
+  try {
+    const content = await fs.readFile(filePath, 'utf8');
+    return JSON.parse(content) as T;
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return fallback;
+    }
+    throw new Error(`Failed to read ${filePath}: ${error.message}`);
+  }
+}
+
+/**
+ * Write a JSON file atomically (temp file + rename) so a crash never leaves it half written
+ */
+export async function writeJsonFile(filePath: string, data: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(data, null, 2), 'utf8');
+  await fs.rename(tempPath, filePath);
+}
@@ -0,0 +1,91 @@
+// Log of every profile revision written to the device, keyed by content hash
+// Lets a shot be traced back to the exact parameters that brewed it
+
+import { readJsonFile, writeJsonFile } from './jsonFile.js';
+import { SerialQueue } from './serialQueue.js';
+import { hashProfile } from '../profiles/profileHash.js';
+
+const STORE_FORMAT_VERSION = 1;
+
+export interface ProfileRevision {
+  hash: string;
+  profile_id: string;
+  label: string;
+  saved_at: string;
+  profile: any;
+}
+
+interface StoreFile {
+  format: number;
+  revisions: ProfileRevision[];
+}
+
+export class ProfileRevisionStore {
+  // Serializes read-modify-write cycles on the file
+  private readonly queue = new SerialQueue();
+
+  constructor(private readonly filePath: string) {}
+
+  /**
+   * Record a profile as saved now. Consecutive saves of the same recipe are kept once.
+   */
+  recordRevision(profile: any): Promise<ProfileRevision> {
+    return this.queue.run(async () => {
+      const data = await this.read();
+      const hash = hashProfile(profile);
+      const profileId = String(profile?.id ?? '');
+
+      const previous = this.latestFor(data.revisions, profileId, Infinity);
+      if (previous && previous.hash === hash) {
+        return previous;
+      }
+
+      const revision: ProfileRevision = {
+        hash,
+        profile_id: profileId,
+        label: profile?.label || '',
+        saved_at: new Date().toISOString(),
+        profile,
+      };
+      data.revisions.push(revision);
+      await writeJsonFile(this.filePath, data);
+      return revision;
+    });
+  }
+
+  /**
+   * Revision of a profile that was active at the given time (unix seconds)
+   */
+  async findRevisionAt(profileId: string, timestamp: number): Promise<ProfileRevision | null> {
+    await this.queue.settled();
+    const data = await this.read();
+    return this.latestFor(data.revisions, profileId, timestamp * 1000);
+  }
+
+  async listRevisions(profileId: string): Promise<ProfileRevision[]> {
+    await this.queue.settled();
+    const data = await this.read();
+    return data.revisions.filter(revision => revision.profile_id === profileId);
+  }
+
+  private latestFor(revisions: ProfileRevision[], profileId: string, beforeMs: number): ProfileRevision | null {
+    let latest: ProfileRevision | null = null;
+    for (const revision of revisions) {
+      if (revision.profile_id !== profileId) continue;
+      const savedAt = Date.parse(revision.saved_at);
+      if (savedAt > beforeMs) continue;
+      if (!latest || savedAt >= Date.parse(latest.saved_at)) {
+        latest = revision;
+      }
+    }
+    return latest;
+  }
+
+  private async read(): Promise<StoreFile> {
+    const data = await readJsonFile<StoreFile>(this.filePath, { format: STORE_FORMAT_VERSION, revisions: [] });
+    if (!Array.isArray(data.revisions)) {
+      data.revisions = [];
+    }
+    return data;
+  }
+}
@@ -0,0 +1,76 @@
+// Local history of AI profile revisions, snapshotted before every save
+// Stored as a single JSON file keyed by profile label
+
+import { readJsonFile, writeJsonFile } from './jsonFile.js';
+import { SerialQueue } from './serialQueue.js';
+
+const STORE_FORMAT_VERSION = 1;
+const MAX_VERSIONS_PER_PROFILE = 100;
+
+export interface ProfileVersion {
+  version: number;
+  saved_at: string;
+  profile_id: string | null;
+  label: string;
+  reason: string;
+  profile: any;
+}
+
+interface StoreFile {
+  format: number;
+  profiles: { [label: string]: ProfileVersion[] };
+}
+
+export class ProfileVersionStore {
+  // Serializes read-modify-write cycles on the file
+  private readonly queue = new SerialQueue();
+
+  constructor(private readonly filePath: string) {}
+
+  /**
+   * Record a snapshot of a profile and return the stored version
+   */
+  addVersion(label: string, profile: any, reason: string): Promise<ProfileVersion> {
+    return this.queue.run(async () => {
+      const data = await this.read();
+      const versions = data.profiles[label] || [];
+      const lastVersion = versions.length > 0 ? versions[versions.length - 1].version : 0;
+
+      const entry: ProfileVersion = {
+        version: lastVersion + 1,
+        saved_at: new Date().toISOString(),
+        profile_id: profile?.id ?? null,
+        label,
+        reason,
+        profile,
+      };
+
+      versions.push(entry);
+      data.profiles[label] = versions.slice(-MAX_VERSIONS_PER_PROFILE);
+      await writeJsonFile(this.filePath, data);
+      return entry;
+    });
+  }
+
+  /**
+   * All stored versions of a profile, oldest first
+   */
+  async listVersions(label: string): Promise<ProfileVersion[]> {
+    await this.queue.settled();
+    const data = await this.read();
+    return data.profiles[label] || [];
+  }
+
+  async getVersion(label: string, version: number): Promise<ProfileVersion | null> {
+    const versions = await this.listVersions(label);
+    return versions.find(v => v.version === version) || null;
+  }
+
+  private async read(): Promise<StoreFile> {
+    const data = await readJsonFile<StoreFile>(this.filePath, { format: STORE_FORMAT_VERSION, profiles: {} });
+    if (!data.profiles) {
+      data.profiles = {};
+    }
+    return data;
+  }
+}
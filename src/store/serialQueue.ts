@@ -0,0 +1,22 @@
+// Runs async tasks one at a time, in the order they were queued
+// The JSON stores use it so read-modify-write cycles on a file never interleave
+
+export class SerialQueue {
+  private tail: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Run a task once every task queued before it has settled
+   */
+  run<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.tail.then(task, task);
+    this.tail = result.catch(() => {});
+    return result;
+  }
+
+  /**
+   * Resolve once every task queued so far has settled, so reads see the latest writes
+   */
+  async settled(): Promise<void> {
+    await this.tail;
+  }
+}
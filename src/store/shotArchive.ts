@@ -0,0 +1,230 @@
+// Local mirror of the device shot history: index entries, raw .slog files and notes
+// The device rotates old shots out of its storage; the archive keeps every shot it has seen
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { readJsonFile, writeJsonFile } from './jsonFile.js';
+import { SerialQueue } from './serialQueue.js';
+import { IndexData, IndexEntry } from '../parsers/binaryIndex.js';
+
+const STORE_FORMAT_VERSION = 1;
+
+// Device shot ids are numeric; anything else could name a path outside the archive
+const SHOT_ID = /^\d+$/;
+
+export function isShotId(shotId: string): boolean {
+  return SHOT_ID.test(shotId);
+}
+
+interface ArchiveIndexFile {
+  format: number;
+  header: IndexData['header'] | null;
+  // Every shot id below this has been downloaded (or was deleted on the device)
+  synced_next_id: number;
+  synced_at: string | null;
+  // Synced shots whose index entry changed since, so their notes must be fetched again
+  stale_notes: number[];
+  entries: IndexEntry[];
+}
+
+export interface ShotArchiveStatus {
+  directory: string;
+  shot_count: number;
+  next_id: number | null;
+  synced_next_id: number;
+  synced_at: string | null;
+}
+
+export class ShotArchive {
+  // Serializes read-modify-write cycles on the index file
+  private readonly queue = new SerialQueue();
+
+  constructor(private readonly directory: string) {}
+
+  /**
+   * Merge a device index into the archive. Device entries win; entries the device has
+   * rotated out are kept. A synced shot whose entry changed (notes or rating edited on the
+   * device) is marked for a notes refresh. The index file is only rewritten when it changed.
+   *
+   * A device next id below the archived one means the device history was reset and shot ids
+   * will be reused, so the old archive is moved aside first. Returns true when that happened.
+   */
+  mergeIndex(index: IndexData): Promise<boolean> {
+    return this.queue.run(async () => {
+      let data = await this.readIndexFile();
+      const reset = data.header !== null && index.header.nextId < data.header.nextId;
+      if (reset) {
+        await this.setAside();
+        data = await this.readIndexFile();
+      }
+
+      const before = JSON.stringify(data);
+      const entries = new Map(data.entries.map(entry => [entry.id, entry]));
+      const stale = new Set(data.stale_notes);
+      for (const entry of index.entries) {
+        const archived = entries.get(entry.id);
+        if (archived && entry.id < data.synced_next_id && JSON.stringify(archived) !== JSON.stringify(entry)) {
+          stale.add(entry.id);
+        }
+        entries.set(entry.id, entry);
+      }
+      data.stale_notes = [...stale].sort((a, b) => a - b);
+      data.entries = [...entries.values()].sort((a, b) => a.id - b.id);
+      data.header = { ...index.header, entryCount: data.entries.length };
+      if (JSON.stringify(data) !== before) {
+        await writeJsonFile(this.indexPath(), data);
+      }
+      return reset;
+    });
+  }
+
+  /**
+   * The merged index in device format, or null before the first sync
+   */
+  async readIndex(): Promise<IndexData | null> {
+    await this.queue.settled();
+    const data = await this.readIndexFile();
+    return data.header ? { header: data.header, entries: data.entries } : null;
+  }
+
+  /**
+   * Synced shots whose notes may have changed on the device since they were archived
+   */
+  async staleNoteIds(): Promise<number[]> {
+    await this.queue.settled();
+    const data = await this.readIndexFile();
+    return data.stale_notes;
+  }
+
+  /**
+   * Record that the notes of these shots are current again
+   */
+  markNotesSynced(shotIds: number[]): Promise<void> {
+    return this.queue.run(async () => {
+      const data = await this.readIndexFile();
+      const synced = new Set(shotIds);
+      data.stale_notes = data.stale_notes.filter(id => !synced.has(id));
+      await writeJsonFile(this.indexPath(), data);
+    });
+  }
+
+  /**
+   * Record that every shot below `nextId` is archived
+   */
+  markSynced(nextId: number): Promise<void> {
+    return this.queue.run(async () => {
+      const data = await this.readIndexFile();
+      data.synced_next_id = Math.max(data.synced_next_id, nextId);
+      data.synced_at = new Date().toISOString();
+      await writeJsonFile(this.indexPath(), data);
+    });
+  }
+
+  async getStatus(): Promise<ShotArchiveStatus> {
+    await this.queue.settled();
+    const data = await this.readIndexFile();
+    return {
+      directory: this.directory,
+      shot_count: data.entries.filter(entry => !entry.deleted).length,
+      next_id: data.header?.nextId ?? null,
+      synced_next_id: data.synced_next_id,
+      synced_at: data.synced_at,
+    };
+  }
+
+  async readShot(shotId: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.shotPath(shotId));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async hasShot(shotId: string): Promise<boolean> {
+    try {
+      await fs.access(this.shotPath(shotId));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Store a raw .slog file atomically (temp file + rename)
+   */
+  async writeShot(shotId: string, buffer: Buffer): Promise<void> {
+    const filePath = this.shotPath(shotId);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, buffer);
+    await fs.rename(tempPath, filePath);
+  }
+
+  async readNotes(shotId: string): Promise<any | null> {
+    return readJsonFile<any | null>(this.notesPath(shotId), null);
+  }
+
+  async writeNotes(shotId: string, notes: any): Promise<void> {
+    await writeJsonFile(this.notesPath(shotId), notes);
+  }
+
+  async deleteNotes(shotId: string): Promise<void> {
+    await fs.rm(this.notesPath(shotId), { force: true });
+  }
+
+  // Move the index, shots and notes under previous/<time>/ so reused ids never serve old shots
+  private async setAside(): Promise<void> {
+    const target = path.join(this.directory, 'previous', new Date().toISOString().replace(/[:.]/g, '-'));
+    await fs.mkdir(target, { recursive: true });
+    for (const name of ['index.json', 'shots', 'notes']) {
+      try {
+        await fs.rename(path.join(this.directory, name), path.join(target, name));
+      } catch (error: any) {
+        if (error.code !== 'ENOENT') {
+          throw error;
+        }
+      }
+    }
+  }
+
+  private fileName(shotId: string): string {
+    if (!isShotId(shotId)) {
+      throw new Error(`Invalid shot id '${shotId}'`);
+    }
+    // Same zero-padded naming as the device
+    return shotId.padStart(6, '0');
+  }
+
+  private shotPath(shotId: string): string {
+    return path.join(this.directory, 'shots', `${this.fileName(shotId)}.slog`);
+  }
+
+  private notesPath(shotId: string): string {
+    return path.join(this.directory, 'notes', `${this.fileName(shotId)}.json`);
+  }
+
+  private indexPath(): string {
+    return path.join(this.directory, 'index.json');
+  }
+
+  private async readIndexFile(): Promise<ArchiveIndexFile> {
+    const data = await readJsonFile<ArchiveIndexFile>(this.indexPath(), {
+      format: STORE_FORMAT_VERSION,
+      header: null,
+      synced_next_id: 0,
+      synced_at: null,
+      stale_notes: [],
+      entries: [],
+    });
+    if (!Array.isArray(data.entries)) {
+      data.entries = [];
+    }
+    if (!Array.isArray(data.stale_notes)) {
+      data.stale_notes = [];
+    }
+    return data;
+  }
+}
@@ -0,0 +1,151 @@
+// Normalizes shot notes from req:history:notes:get into a typed model
+// Device notes are free-form JSON written by the web UI (and update_shot_notes)
+
+import { daysOffRoast } from '../utils/dates.js';
+import { round } from '../utils/math.js';
+
+export type TasteBalance = 'bitter' | 'balanced' | 'sour';
+
+export interface ShotNotes {
+  dose_in_g: number | null;
+  dose_out_g: number | null;
+  brew_ratio: number | null;
+  grind_setting: string | null;
+  bean_id: string | null;
+  bean_name: string | null;
+  roast_date: string | null;
+  days_off_roast: number | null;
+  taste_balance: TasteBalance | null;
+  tds_percent: number | null;
+  extraction_yield_percent: number | null;
+  rating: number | null;
+  text: string | null;
+  other_fields: { [key: string]: any };
+}
+
+// Device / web UI field names, with common alternatives the model or older UIs may have written
+const FIELD_ALIASES = {
+  doseIn: ['doseIn', 'dose_in', 'dose', 'doseInG'],
+  doseOut: ['doseOut', 'dose_out', 'yield', 'doseOutG'],
+  ratio: ['ratio', 'brewRatio'],
+  grindSetting: ['grindSetting', 'grind_setting', 'grind'],
+  beanId: ['beanId', 'bean_id'],
+  beanType: ['beanType', 'bean_type', 'bean', 'beans'],
+  roastDate: ['roastDate', 'roast_date'],
+  balanceTaste: ['balanceTaste', 'balance_taste', 'taste', 'balance'],
+  tds: ['tds', 'TDS'],
+  rating: ['rating'],
+  notes: ['notes', 'text', 'comment'],
+};
+
+const KNOWN_FIELDS = new Set<string>([...Object.values(FIELD_ALIASES).flat(), 'id']);
+
+function pick(raw: { [key: string]: any }, aliases: string[]): any {
+  for (const key of aliases) {
+    const value = raw[key];
+    if (value !== undefined && value !== null && value !== '') {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+// Accepts numbers and strings like "18", "18.5g", "18,5 g" or "1:2"
+function parseNumber(value: any): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const match = value.replace(',', '.').match(/-?\d+(\.\d+)?/);
+  return match ? parseFloat(match[0]) : null;
+}
+
+function parseRatio(value: any): number | null {
+  if (typeof value === 'string' && value.includes(':')) {
+    const [left, right] = value.split(':').map(part => parseNumber(part));
+    if (left && right) {
+      return right / left;
+    }
+  }
+  return parseNumber(value);
+}
+
+function parseText(value: any): string | null {
+  if (value === undefined || value === null) return null;
+  const text = String(value).trim();
+  return text.length > 0 ? text : null;
+}
+
+function parseTasteBalance(value: any): TasteBalance | null {
+  if (typeof value !== 'string') return null;
+  const normalized = value.trim().toLowerCase();
+  if (normalized === 'bitter' || normalized === 'balanced' || normalized === 'sour') {
+    return normalized;
+  }
+  return null;
+}
+
+// Normalize to YYYY-MM-DD when the value is a parseable date
+function parseDate(value: any): string | null {
+  const text = parseText(value);
+  if (!text) return null;
+  const time = Date.parse(text);
+  return Number.isNaN(time) ? text : new Date(time).toISOString().slice(0, 10);
+}
+
+/**
+ * Normalize raw device notes. Returns null when there are no notes.
+ * @param shotTimestamp Shot time in unix seconds, used for days off roast
+ */
+export function normalizeShotNotes(raw: any, shotTimestamp?: number): ShotNotes | null {
+  if (!raw) return null;
+
+  // Older firmware may store plain text notes
+  if (typeof raw === 'string') {
+    raw = { notes: raw };
+  }
+  if (typeof raw !== 'object') return null;
+
+  const doseIn = parseNumber(pick(raw, FIELD_ALIASES.doseIn));
+  const doseOut = parseNumber(pick(raw, FIELD_ALIASES.doseOut));
+  const tds = parseNumber(pick(raw, FIELD_ALIASES.tds));
+  const rating = parseNumber(pick(raw, FIELD_ALIASES.rating));
+  const roastDate = parseDate(pick(raw, FIELD_ALIASES.roastDate));
+
+  let brewRatio: number | null = null;
+  if (doseIn && doseOut) {
+    brewRatio = doseOut / doseIn;
+  } else {
+    brewRatio = parseRatio(pick(raw, FIELD_ALIASES.ratio));
+  }
+
+  // Extraction yield (%) = TDS (%) x beverage mass / dose
+  const extractionYield = tds && doseIn && doseOut ? (tds * doseOut) / doseIn : null;
+
+
+  const otherFields: { [key: string]: any } = {};
+  for (const [key, value] of Object.entries(raw)) {
+    if (!KNOWN_FIELDS.has(key)) {
+      otherFields[key] = value;
+    }
+  }
+
+  return {
+    dose_in_g: doseIn,
+    dose_out_g: doseOut,
+    brew_ratio: brewRatio !== null ? round(brewRatio, 2) : null,
+    grind_setting: parseText(pick(raw, FIELD_ALIASES.grindSetting)),
+    bean_id: parseText(pick(raw, FIELD_ALIASES.beanId)),
+    bean_name: parseText(pick(raw, FIELD_ALIASES.beanType)),
+    roast_date: roastDate,
+    days_off_roast: shotTimestamp ? daysOffRoast(roastDate, shotTimestamp) : null,
+    taste_balance: parseTasteBalance(pick(raw, FIELD_ALIASES.balanceTaste)),
+    tds_percent: tds,
+    extraction_yield_percent: extractionYield !== null ? round(extractionYield, 2) : null,
+    rating: rating !== null && rating > 0 ? rating : null,
+    text: parseText(pick(raw, FIELD_ALIASES.notes)),
+    other_fields: otherFields,
+  };
+}
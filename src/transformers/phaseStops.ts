@@ -0,0 +1,134 @@
+// Reconstruct which stop condition ended each phase
+// The log only records transitions, so the reason is inferred from the profile and the
+// sample values at the moment the phase ended
+
+import { ShotSample } from '../parsers/binaryShot.js';
+import { round } from '../utils/math.js';
+
+// How close a value must be to a target to count as having reached it
+const TARGET_TOLERANCE: { [type: string]: number } = {
+  pressure: 0.2, // bar
+  flow: 0.2, // ml/s
+  volumetric: 0.5, // g
+  pumped: 2, // ml
+};
+
+// Extra slack (ms) on top of one sample interval when comparing against the phase duration
+const DURATION_SLACK_MS = 300;
+
+export interface PhaseStopTarget {
+  type: string;
+  operator: string;
+  value: number;
+  actual: number | null;
+}
+
+export interface PhaseStop {
+  ended_by: 'duration' | 'target' | 'user' | 'unknown';
+  // The target that fired when ended_by is 'target'
+  target: PhaseStopTarget | null;
+  // Every target of the phase with the value it had at the end
+  targets: PhaseStopTarget[];
+  elapsed_seconds: number;
+  profile_duration_seconds: number | null;
+  detail: string;
+}
+
+// Value a target is compared against, as seen at the end of the phase
+function targetValue(type: string, samples: ShotSample[], intervalMs: number): number | null {
+  const last = samples[samples.length - 1];
+  switch (type) {
+    case 'pressure':
+      return last.cp ?? null;
+    case 'flow':
+      return last.pf ?? null;
+    case 'volumetric':
+      return last.v ?? null;
+    case 'pumped': {
+      // Pump flow integrated over the phase
+      let volume = 0;
+      for (const sample of samples) {
+        volume += (sample.fl || 0) * intervalMs / 1000;
+      }
+      return volume;
+    }
+    default:
+      return null;
+  }
+}
+
+function targetReached(target: PhaseStopTarget): boolean {
+  if (target.actual === null) return false;
+  const tolerance = TARGET_TOLERANCE[target.type] ?? 0;
+  return target.operator === 'lte'
+    ? target.actual <= target.value + tolerance
+    : target.actual >= target.value - tolerance;
+}
+
+/**
+ * Decide why a phase ended.
+ * `elapsedMs` runs from the first sample of the phase to the start of the next phase (or the end of the shot).
+ * A final phase that ends early with no target met was stopped by the user; without a matching profile phase the reason is 'unknown'.
+ */
+export function determinePhaseStop(
+  samples: ShotSample[],
+  profilePhase: any | null,
+  elapsedMs: number,
+  intervalMs: number,
+  isLastPhase: boolean,
+): PhaseStop {
+  const elapsed = round(elapsedMs / 1000);
+  const profileDuration = typeof profilePhase?.duration === 'number' ? profilePhase.duration : null;
+  const targets: PhaseStopTarget[] = (Array.isArray(profilePhase?.targets) ? profilePhase.targets : []).map((t: any) => {
+    const actual = samples.length > 0 ? targetValue(t.type, samples, intervalMs) : null;
+    return {
+      type: t.type,
+      operator: t.operator || 'gte',
+      value: t.value,
+      actual: actual !== null ? round(actual) : null,
+    };
+  });
+
+  const base = { targets, elapsed_seconds: elapsed, profile_duration_seconds: profileDuration };
+
+  if (!profilePhase) {
+    return { ended_by: 'unknown', target: null, detail: 'No matching profile phase to compare against', ...base };
+  }
+
+  const durationReached = profileDuration !== null && elapsedMs >= profileDuration * 1000 - intervalMs - DURATION_SLACK_MS;
+  const reached = targets.filter(targetReached);
+
+  if (reached.length > 0 && !durationReached) {
+    const target = reached[0];
+    return {
+      ended_by: 'target',
+      target,
+      detail: `${target.type} ${target.operator} ${target.value} reached (${target.actual}) after ${elapsed}s of ${profileDuration}s`,
+      ...base,
+    };
+  }
+  if (durationReached) {
+    return {
+      ended_by: 'duration',
+      target: null,
+      detail: reached.length > 0
+        ? `Ran its full ${profileDuration}s; ${reached.map(t => t.type).join(', ')} target was also met at the end`
+        : `Ran its full ${profileDuration}s without reaching ${targets.length > 0 ? 'any target' : 'a target (none set)'}`,
+      ...base,
+    };
+  }
+  if (isLastPhase) {
+    return {
+      ended_by: 'user',
+      target: null,
+      detail: `Stopped after ${elapsed}s of ${profileDuration}s with no target reached`,
+      ...base,
+    };
+  }
+  return {
+    ended_by: 'unknown',
+    target: null,
+    detail: `Ended after ${elapsed}s of ${profileDuration}s but no target was met at the last sample`,
+    ...base,
+  };
+}
@@ -0,0 +1,185 @@
+// Puck resistance over time and detection of channeling events
+// Channeling shows up as resistance collapsing, or flow jumping while pressure holds
+
+import { ShotData, ShotSample } from '../parsers/binaryShot.js';
+import { round } from '../utils/math.js';
+
+// Minimum puck flow (ml/s) for resistance to be meaningful
+const MIN_FLOW = 0.2;
+// Pressure change (bar) still considered "constant pressure"
+const STABLE_PRESSURE_DELTA = 0.5;
+// Window (ms) over which drops and spikes are measured
+const EVENT_WINDOW_MS = 1000;
+// Relative resistance drop within the window that indicates a channel
+const RESISTANCE_DROP_RATIO = 0.25;
+// Relative flow increase within the window that indicates a channel
+const FLOW_SPIKE_RATIO = 0.4;
+// Events this early after first flow point at puck prep rather than a late puck failure
+const EARLY_EVENT_SECONDS = 10;
+// Peak resistance (bar per ml/s) below which the puck never built resistance
+const LOW_RESISTANCE = 2;
+
+export interface ResistancePoint {
+  time_seconds: number;
+  resistance: number;
+}
+
+export interface PuckEvent {
+  type: 'resistance_drop' | 'flow_spike';
+  time_seconds: number;
+  severity: 'minor' | 'major';
+  pressure_bar: number;
+  flow_before_ml_s: number;
+  flow_after_ml_s: number;
+  resistance_before: number;
+  resistance_after: number;
+}
+
+export interface PuckFlag {
+  issue: 'early_channeling' | 'late_channeling' | 'resistance_collapse' | 'low_resistance';
+  time_seconds: number | null;
+  message: string;
+}
+
+export interface PuckAnalysis {
+  resistance: {
+    available: boolean;
+    source: 'logged' | 'computed';
+    peak: number | null;
+    peak_time_seconds: number | null;
+    final: number | null;
+    average: number | null;
+    decline_from_peak_percent: number | null;
+    timeline: ResistancePoint[];
+  };
+  events: PuckEvent[];
+  flags: PuckFlag[];
+}
+
+// Use the logged pr field when present, otherwise pressure over puck flow
+function resistanceOf(sample: ShotSample, logged: boolean): number | null {
+  if ((sample.pf || 0) < MIN_FLOW) return null;
+  if (logged) return sample.pr && sample.pr > 0 ? sample.pr : null;
+  return (sample.cp || 0) / sample.pf!;
+}
+
+// Find the sample closest to `windowMs` before index i
+function sampleBefore(samples: ShotSample[], i: number, windowMs: number): ShotSample | null {
+  const targetTime = (samples[i].t || 0) - windowMs;
+  for (let j = i - 1; j >= 0; j--) {
+    if ((samples[j].t || 0) <= targetTime) return samples[j];
+  }
+  return null;
+}
+
+export function analyzePuck(shot: ShotData): PuckAnalysis {
+  const samples = shot.samples;
+  const logged = samples.some(s => (s.pr || 0) > 0);
+
+  const points: { index: number; time: number; resistance: number }[] = [];
+  samples.forEach((sample, index) => {
+    const resistance = resistanceOf(sample, logged);
+    if (resistance !== null && Number.isFinite(resistance)) {
+      points.push({ index, time: sample.t || 0, resistance });
+    }
+  });
+
+  // One point per second keeps the curve readable
+  const timeline: ResistancePoint[] = [];
+  let nextTime = -Infinity;
+  for (const point of points) {
+    if (point.time >= nextTime) {
+      timeline.push({ time_seconds: point.time / 1000, resistance: round(point.resistance) });
+      nextTime = point.time + 1000;
+    }
+  }
+
+  const events: PuckEvent[] = [];
+  let lastEventTime = -Infinity;
+  for (let i = 1; i < samples.length; i++) {
+    const current = samples[i];
+    const previous = sampleBefore(samples, i, EVENT_WINDOW_MS);
+    if (!previous || (current.t || 0) - lastEventTime < EVENT_WINDOW_MS * 2) continue;
+
+    const pressureDelta = Math.abs((current.cp || 0) - (previous.cp || 0));
+    if (pressureDelta > STABLE_PRESSURE_DELTA || (current.cp || 0) < 1) continue;
+
+    const resistanceBefore = resistanceOf(previous, logged);
+    const resistanceAfter = resistanceOf(current, logged);
+    const flowBefore = previous.pf || 0;
+    const flowAfter = current.pf || 0;
+
+    let type: PuckEvent['type'] | null = null;
+    let ratio = 0;
+    if (resistanceBefore && resistanceAfter && resistanceAfter < resistanceBefore * (1 - RESISTANCE_DROP_RATIO)) {
+      type = 'resistance_drop';
+      ratio = 1 - resistanceAfter / resistanceBefore;
+    } else if (flowBefore >= MIN_FLOW && flowAfter > flowBefore * (1 + FLOW_SPIKE_RATIO)) {
+      type = 'flow_spike';
+      ratio = flowAfter / flowBefore - 1;
+    }
+    if (!type) continue;
+
+    events.push({
+      type,
+      time_seconds: (current.t || 0) / 1000,
+      severity: ratio > 0.5 ? 'major' : 'minor',
+      pressure_bar: round(current.cp || 0),
+      flow_before_ml_s: round(flowBefore),
+      flow_after_ml_s: round(flowAfter),
+      resistance_before: round(resistanceBefore || 0),
+      resistance_after: round(resistanceAfter || 0),
+    });
+    lastEventTime = current.t || 0;
+  }
+
+  let peak: { time: number; resistance: number } | null = null;
+  for (const point of points) {
+    if (!peak || point.resistance > peak.resistance) peak = point;
+  }
+  const final = points.length > 0 ? points[points.length - 1].resistance : null;
+  const average = points.length > 0 ? points.reduce((sum, p) => sum + p.resistance, 0) / points.length : null;
+  const decline = peak && final !== null && peak.resistance > 0 ? (1 - final / peak.resistance) * 100 : null;
+
+  const flags: PuckFlag[] = [];
+  const firstFlowTime = points.length > 0 ? points[0].time / 1000 : 0;
+  for (const event of events) {
+    const early = event.time_seconds - firstFlowTime <= EARLY_EVENT_SECONDS;
+    flags.push({
+      issue: early ? 'early_channeling' : 'late_channeling',
+      time_seconds: event.time_seconds,
+      message: early
+        ? `${event.type === 'flow_spike' ? 'Flow spike' : 'Resistance drop'} at ${event.time_seconds}s soon after first flow suggests a channel from puck prep (distribution, tamping, clumps)`
+        : `${event.type === 'flow_spike' ? 'Flow spike' : 'Resistance drop'} at ${event.time_seconds}s at steady pressure suggests the puck fractured (grind too fine, too high pressure, or weak puck)`,
+    });
+  }
+  if (decline !== null && decline > 60 && peak) {
+    flags.push({
+      issue: 'resistance_collapse',
+      time_seconds: peak.time / 1000,
+      message: `Resistance fell ${round(decline, 0)}% from its peak at ${peak.time / 1000}s; some decline is normal, this much suggests channeling or an under-dosed basket`,
+    });
+  }
+  if (peak && peak.resistance < LOW_RESISTANCE && points.length > 0) {
+    flags.push({
+      issue: 'low_resistance',
+      time_seconds: null,
+      message: `Puck never built resistance (peak ${round(peak.resistance)}); grind finer or increase dose`,
+    });
+  }
+
+  return {
+    resistance: {
+      available: points.length > 0,
+      source: logged ? 'logged' : 'computed',
+      peak: peak ? round(peak.resistance) : null,
+      peak_time_seconds: peak ? peak.time / 1000 : null,
+      final: final !== null ? round(final) : null,
+      average: average !== null ? round(average) : null,
+      decline_from_peak_percent: decline !== null ? round(decline, 1) : null,
+      timeline,
+    },
+    events,
+    flags,
+  };
+}
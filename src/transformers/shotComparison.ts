@@ -0,0 +1,326 @@
+// Side-by-side comparison of two or more shots
+// The first shot is the baseline; every delta is "this shot minus the baseline"
+
+import { ShotData, ShotSample } from '../parsers/binaryShot.js';
+import { ProfileChange, diffProfiles } from '../profiles/profileDiff.js';
+import { TransformedShot } from './shotTransformer.js';
+import { round } from '../utils/math.js';
+
+export const ALIGNMENT_MODES = ['phase', 'time', 'weight'] as const;
+export type AlignmentMode = typeof ALIGNMENT_MODES[number];
+
+// Upper bound on aligned points so several shots stay readable
+const MAX_ALIGNED_POINTS = 60;
+// Positions within a phase (percent of its duration) used for phase alignment
+const PHASE_POSITIONS = [0, 25, 50, 75, 100];
+
+export interface ComparedShotInput {
+  shot: ShotData;
+  analysis: TransformedShot;
+  // Profile that brewed the shot, when known
+  profile: any | null;
+}
+
+interface PhaseMetrics {
+  duration_seconds: number;
+  avg_pressure_bar: number;
+  avg_flow_ml_s: number;
+  avg_temperature_c: number;
+  weight_gained_g: number;
+  ended_by: string | null;
+}
+
+interface AlignedValues {
+  time_seconds: number;
+  pressure_bar: number;
+  flow_ml_s: number;
+  temperature_c: number;
+  weight_g: number;
+}
+
+interface AlignedPoint {
+  // Time in seconds, weight in grams, or percent through the phase
+  position: number;
+  phase?: string;
+  shots: (AlignedValues | null)[];
+}
+
+export interface ShotComparison {
+  baseline_shot_id: string;
+  aligned_by: AlignmentMode;
+  shots: {
+    shot_id: string;
+    profile_name: string;
+    profile_id: string;
+    profile_revision: string | null;
+    timestamp: string;
+    rating: number | null;
+  }[];
+  summary: {
+    metric: string;
+    values: (number | null)[];
+    deltas: (number | null)[];
+  }[];
+  phases: {
+    phase: string;
+    shots: (PhaseMetrics | null)[];
+    deltas: ({ [metric: string]: number | null } | null)[];
+  }[];
+  aligned_curve: AlignedPoint[];
+  profile_differences: {
+    shot_id: string;
+    same_profile: boolean;
+    same_revision: boolean | null;
+    changes: ProfileChange[] | null;
+  }[];
+}
+
+interface PhaseRange {
+  key: string;
+  name: string;
+  samples: ShotSample[];
+  durationMs: number;
+  endedBy: string | null;
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+function delta(value: number | null, baseline: number | null): number | null {
+  return value !== null && baseline !== null ? round(value - baseline) : null;
+}
+
+// Weight as the cup saw it, falling back to the machine's estimate without a scale
+function weightOf(sample: ShotSample, useEstimate: boolean): number {
+  return useEstimate ? (sample.ev || 0) : (sample.v || 0);
+}
+
+function usesEstimatedWeight(shot: ShotData): boolean {
+  return !shot.samples.some(s => (s.v || 0) > 0) && shot.samples.some(s => (s.ev || 0) > 0);
+}
+
+function valuesAt(sample: ShotSample, useEstimate: boolean): AlignedValues {
+  return {
+    time_seconds: (sample.t || 0) / 1000,
+    pressure_bar: round(sample.cp || 0),
+    flow_ml_s: round(sample.pf || 0),
+    temperature_c: round(sample.ct || 0, 1),
+    weight_g: round(weightOf(sample, useEstimate), 1),
+  };
+}
+
+// Phases keyed by name and occurrence, so repeated names still line up
+function phaseRanges(input: ComparedShotInput): PhaseRange[] {
+  const { shot, analysis } = input;
+  const seen = new Map<string, number>();
+  if (shot.phases.length === 0) {
+    return [{ key: 'extraction', name: 'extraction', samples: shot.samples, durationMs: shot.duration, endedBy: analysis.phases[0]?.stop.ended_by ?? null }];
+  }
+  return shot.phases.map((phase, i) => {
+    const occurrence = seen.get(phase.phaseName) ?? 0;
+    seen.set(phase.phaseName, occurrence + 1);
+    const next = shot.phases[i + 1];
+    const samples = shot.samples.slice(phase.sampleIndex, next?.sampleIndex ?? shot.samples.length);
+    const startMs = shot.samples[phase.sampleIndex]?.t || 0;
+    const endMs = next ? (shot.samples[next.sampleIndex]?.t ?? shot.duration) : shot.duration;
+    return {
+      key: occurrence === 0 ? phase.phaseName : `${phase.phaseName} #${occurrence + 1}`,
+      name: phase.phaseName,
+      samples,
+      durationMs: endMs - startMs,
+      endedBy: analysis.phases.find(p => p.phase_number === phase.phaseNumber && p.name === phase.phaseName)?.stop.ended_by ?? null,
+    };
+  }).filter(range => range.samples.length > 0);
+}
+
+// Baseline order first, then phases only the other shots have
+function phaseKeys(ranges: PhaseRange[][]): string[] {
+  const keys: string[] = [];
+  for (const shotRanges of ranges) {
+    for (const range of shotRanges) {
+      if (!keys.includes(range.key)) keys.push(range.key);
+    }
+  }
+  return keys;
+}
+
+function phaseMetrics(range: PhaseRange, useEstimate: boolean): PhaseMetrics {
+  const samples = range.samples;
+  const temperatures = samples.map(s => s.ct || 0).filter(t => t > 0);
+  return {
+    duration_seconds: round(range.durationMs / 1000),
+    avg_pressure_bar: round(average(samples.map(s => s.cp || 0))),
+    avg_flow_ml_s: round(average(samples.map(s => s.pf || 0))),
+    avg_temperature_c: round(average(temperatures), 1),
+    weight_gained_g: round(weightOf(samples[samples.length - 1], useEstimate) - weightOf(samples[0], useEstimate), 1),
+    ended_by: range.endedBy,
+  };
+}
+
+function comparePhases(inputs: ComparedShotInput[]): ShotComparison['phases'] {
+  const ranges = inputs.map(phaseRanges);
+  const estimates = inputs.map(input => usesEstimatedWeight(input.shot));
+
+  return phaseKeys(ranges).map(key => {
+    const metrics = ranges.map((shotRanges, i) => {
+      const range = shotRanges.find(r => r.key === key);
+      return range ? phaseMetrics(range, estimates[i]) : null;
+    });
+    const baseline = metrics[0];
+    return {
+      phase: key,
+      shots: metrics,
+      deltas: metrics.map((m, i) => {
+        if (i === 0 || !m || !baseline) return null;
+        return {
+          duration_seconds: delta(m.duration_seconds, baseline.duration_seconds),
+          avg_pressure_bar: delta(m.avg_pressure_bar, baseline.avg_pressure_bar),
+          avg_flow_ml_s: delta(m.avg_flow_ml_s, baseline.avg_flow_ml_s),
+          avg_temperature_c: delta(m.avg_temperature_c, baseline.avg_temperature_c),
+          weight_gained_g: delta(m.weight_gained_g, baseline.weight_gained_g),
+        };
+      }),
+    };
+  });
+}
+
+function compareSummaries(inputs: ComparedShotInput[]): ShotComparison['summary'] {
+  const metrics: { [metric: string]: (input: ComparedShotInput) => number | null } = {
+    duration_seconds: ({ shot }) => shot.duration / 1000,
+    yield_g: ({ analysis }) => analysis.summary.reconciliation.yield_g,
+    time_to_first_drip_seconds: ({ analysis }) => analysis.summary.flow.time_to_first_drip_seconds,
+    preinfusion_seconds: ({ analysis }) => analysis.summary.extraction.preinfusion_time_seconds,
+    avg_pressure_bar: ({ analysis }) => analysis.summary.pressure.average_bar,
+    peak_pressure_bar: ({ analysis }) => analysis.summary.pressure.max_bar,
+    avg_flow_ml_s: ({ analysis }) => analysis.summary.flow.average_flow_rate_ml_s,
+    puck_volume_ml: ({ analysis }) => analysis.summary.flow.total_volume_ml,
+    avg_temperature_c: ({ analysis }) => analysis.summary.temperature.average_celsius,
+    peak_resistance: ({ analysis }) => analysis.puck_analysis.resistance.peak,
+    brew_ratio: ({ analysis }) => analysis.notes?.brew_ratio ?? null,
+    rating: ({ analysis }) => analysis.notes?.rating ?? null,
+  };
+
+  return Object.entries(metrics).map(([metric, read]) => {
+    const values = inputs.map(input => {
+      const value = read(input);
+      return value !== null && Number.isFinite(value) ? round(value) : null;
+    });
+    return {
+      metric,
+      values,
+      deltas: values.map((value, i) => (i === 0 ? null : delta(value, values[0]))),
+    };
+  });
+}
+
+// Last sample at or before a time, null once the shot has ended
+function sampleAtTime(shot: ShotData, timeMs: number): ShotSample | null {
+  if (timeMs > shot.duration) return null;
+  let found: ShotSample | null = null;
+  for (const sample of shot.samples) {
+    if ((sample.t || 0) > timeMs) break;
+    found = sample;
+  }
+  return found;
+}
+
+function alignByTime(inputs: ComparedShotInput[]): AlignedPoint[] {
+  const longest = Math.max(...inputs.map(input => input.shot.duration));
+  const stepMs = Math.max(1000, Math.ceil(longest / MAX_ALIGNED_POINTS / 1000) * 1000);
+  const points: AlignedPoint[] = [];
+  for (let t = 0; t <= longest; t += stepMs) {
+    points.push({
+      position: t / 1000,
+      shots: inputs.map(({ shot }) => {
+        const sample = sampleAtTime(shot, t);
+        return sample ? valuesAt(sample, usesEstimatedWeight(shot)) : null;
+      }),
+    });
+  }
+  return points;
+}
+
+function alignByWeight(inputs: ComparedShotInput[]): AlignedPoint[] {
+  const estimates = inputs.map(input => usesEstimatedWeight(input.shot));
+  const heaviest = Math.max(...inputs.map((input, i) =>
+    Math.max(0, ...input.shot.samples.map(s => weightOf(s, estimates[i])))));
+  if (heaviest <= 0) return [];
+
+  const step = Math.max(1, Math.ceil(heaviest / MAX_ALIGNED_POINTS));
+  const points: AlignedPoint[] = [];
+  for (let weight = step; weight <= heaviest; weight += step) {
+    points.push({
+      position: weight,
+      shots: inputs.map(({ shot }, i) => {
+        const sample = shot.samples.find(s => weightOf(s, estimates[i]) >= weight);
+        return sample ? valuesAt(sample, estimates[i]) : null;
+      }),
+    });
+  }
+  return points;
+}
+
+function alignByPhase(inputs: ComparedShotInput[]): AlignedPoint[] {
+  const ranges = inputs.map(phaseRanges);
+  const estimates = inputs.map(input => usesEstimatedWeight(input.shot));
+  const points: AlignedPoint[] = [];
+  for (const key of phaseKeys(ranges)) {
+    for (const percent of PHASE_POSITIONS) {
+      points.push({
+        position: percent,
+        phase: key,
+        shots: ranges.map((shotRanges, i) => {
+          const range = shotRanges.find(r => r.key === key);
+          if (!range) return null;
+          const index = Math.min(range.samples.length - 1, Math.round((range.samples.length - 1) * percent / 100));
+          return valuesAt(range.samples[index], estimates[i]);
+        }),
+      });
+    }
+  }
+  return points;
+}
+
+function compareProfiles(inputs: ComparedShotInput[]): ShotComparison['profile_differences'] {
+  const baseline = inputs[0];
+  return inputs.slice(1).map(input => {
+    const baseRevision = baseline.analysis.metadata.profile_revision?.hash ?? null;
+    const revision = input.analysis.metadata.profile_revision?.hash ?? null;
+    return {
+      shot_id: input.shot.id,
+      same_profile: input.shot.profileId === baseline.shot.profileId,
+      same_revision: baseRevision && revision ? baseRevision === revision : null,
+      changes: baseline.profile && input.profile ? diffProfiles(baseline.profile, input.profile) : null,
+    };
+  });
+}
+
+/**
+ * Compare analysed shots against the first one.
+ * Alignment only affects `aligned_curve`; per-phase and summary deltas are always reported.
+ */
+export function compareShots(inputs: ComparedShotInput[], alignBy: AlignmentMode = 'phase'): ShotComparison {
+  const aligned = alignBy === 'time'
+    ? alignByTime(inputs)
+    : alignBy === 'weight'
+      ? alignByWeight(inputs)
+      : alignByPhase(inputs);
+
+  return {
+    baseline_shot_id: inputs[0].shot.id,
+    aligned_by: alignBy,
+    shots: inputs.map(({ shot, analysis }) => ({
+      shot_id: shot.id,
+      profile_name: shot.profileName,
+      profile_id: shot.profileId,
+      profile_revision: analysis.metadata.profile_revision?.hash ?? null,
+      timestamp: analysis.metadata.timestamp,
+      rating: analysis.notes?.rating ?? null,
+    })),
+    summary: compareSummaries(inputs),
+    phases: comparePhases(inputs),
+    aligned_curve: aligned,
+    profile_differences: compareProfiles(inputs),
+  };
+}
@@ -0,0 +1,285 @@
+// Rule-based interpretation of a shot analysis
+// Each finding carries the numbers it is based on and the direction to adjust,
+// so every model reaches the same conclusions from the same shot
+
+import { ShotData, ShotSample } from '../parsers/binaryShot.js';
+import { PuckAnalysis } from './puckAnalysis.js';
+import { ShotSummary } from './shotTransformer.js';
+import { PumpTarget, inferPumpTarget } from './trackingAnalysis.js';
+import { round } from '../utils/math.js';
+
+const THRESHOLDS = {
+  // First drip (seconds) earlier than this is too fast
+  fastFirstDrip: 5,
+  // First drip later than this many seconds after preinfusion ended is too slow
+  slowFirstDripAfterPreinfusion: 8,
+  // Weight (g) that counts as the first drip when a scale is connected
+  firstDripWeight: 1,
+  // Shortfall (bar) below the phase's highest pressure target
+  pressureShortfall: 1,
+  // Phases shorter than this (s) are not judged on reaching pressure
+  minPhaseSeconds: 3,
+  // Late flow this many times the main extraction median is a runaway
+  flowRunawayRatio: 1.5,
+  // Average temperature error (°C) worth reporting
+  temperatureError: 2,
+  // Weight shortfall (g) against a volumetric target
+  weightShortfall: 1,
+  // Slack (s) when deciding the profile ran to its full duration
+  durationSlack: 1,
+};
+
+export interface ShotFinding {
+  code:
+    | 'fast_first_drip'
+    | 'slow_first_drip'
+    | 'pressure_not_reached'
+    | 'flow_runaway'
+    | 'channeling'
+    | 'temperature_off_target'
+    | 'stopped_by_duration';
+  severity: 'info' | 'warning' | 'problem';
+  phase: string | null;
+  time_seconds: number | null;
+  message: string;
+  evidence: Record<string, number | string | boolean | null>;
+  suggestion: string;
+}
+
+export interface DiagnosticsInput {
+  shot: ShotData;
+  summary: ShotSummary;
+  puck: PuckAnalysis;
+  // Profile that brewed the shot, when known; enables checks against stop targets
+  profile?: any;
+  // Pump target of each sample from that profile; inferred from tp/tf where missing
+  pumpTargets?: (PumpTarget | null)[];
+}
+
+interface PhaseRange {
+  name: string;
+  phaseNumber: number;
+  start: number;
+  samples: ShotSample[];
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+function phaseRanges(shot: ShotData): PhaseRange[] {
+  if (shot.phases.length === 0) {
+    return [{ name: 'extraction', phaseNumber: 0, start: 0, samples: shot.samples }];
+  }
+  return shot.phases.map((phase, i) => ({
+    name: phase.phaseName,
+    phaseNumber: phase.phaseNumber,
+    start: phase.sampleIndex,
+    samples: shot.samples.slice(phase.sampleIndex, shot.phases[i + 1]?.sampleIndex ?? shot.samples.length),
+  })).filter(range => range.samples.length > 0);
+}
+
+function checkFirstDrip({ shot, summary }: DiagnosticsInput): ShotFinding[] {
+  // Prefer the scale: puck flow is an estimate and reads positive while the headspace fills
+  const dripSample = shot.samples.find(s => (s.v || 0) >= THRESHOLDS.firstDripWeight);
+  const firstDrip = dripSample ? (dripSample.t || 0) / 1000 : summary.flow.time_to_first_drip_seconds;
+  if (firstDrip === null) return [];
+
+  const preinfusion = summary.extraction.preinfusion_time_seconds;
+  const evidence = {
+    first_drip_seconds: firstDrip,
+    source: dripSample ? 'scale' : 'puck_flow',
+    preinfusion_seconds: preinfusion,
+  };
+
+  if (firstDrip < THRESHOLDS.fastFirstDrip) {
+    return [{
+      code: 'fast_first_drip',
+      severity: 'warning',
+      phase: null,
+      time_seconds: firstDrip,
+      message: `First drip after ${firstDrip}s; the puck offered little early resistance`,
+      evidence,
+      suggestion: 'Grind finer or increase dose; a gentler, longer preinfusion also helps saturate the puck before it drips',
+    }];
+  }
+  if (firstDrip > preinfusion + THRESHOLDS.slowFirstDripAfterPreinfusion) {
+    return [{
+      code: 'slow_first_drip',
+      severity: 'warning',
+      phase: null,
+      time_seconds: firstDrip,
+      message: `First drip ${round(firstDrip - preinfusion, 1)}s after preinfusion ended`,
+      evidence,
+      suggestion: 'Grind coarser or reduce dose; alternatively raise preinfusion pressure or flow',
+    }];
+  }
+  return [];
+}
+
+function checkPressureReached(input: DiagnosticsInput): ShotFinding[] {
+  const findings: ShotFinding[] = [];
+  // In a flow phase tp is only the limit, so only pressure-target samples are held to it
+  const pumpTargetAt = (sample: ShotSample, i: number) => input.pumpTargets?.[i] ?? inferPumpTarget(sample);
+  for (const range of phaseRanges(input.shot)) {
+    const controlled = range.samples.filter((s, i) => (s.tp || 0) > 0 && pumpTargetAt(s, range.start + i) === 'pressure');
+    if (controlled.length === 0) continue;
+    const duration = ((range.samples[range.samples.length - 1].t || 0) - (range.samples[0].t || 0)) / 1000;
+    if (duration < THRESHOLDS.minPhaseSeconds) continue;
+
+    const maxTarget = Math.max(...controlled.map(s => s.tp!));
+    const maxActual = Math.max(...range.samples.map(s => s.cp || 0));
+    if (maxActual >= maxTarget - THRESHOLDS.pressureShortfall) continue;
+
+    const averageFlow = range.samples.reduce((sum, s) => sum + (s.pf || 0), 0) / range.samples.length;
+    findings.push({
+      code: 'pressure_not_reached',
+      severity: 'problem',
+      phase: range.name,
+      time_seconds: (range.samples[0].t || 0) / 1000,
+      message: `Pressure peaked at ${round(maxActual, 1)} bar against a ${round(maxTarget, 1)} bar target in '${range.name}'`,
+      evidence: {
+        target_pressure_bar: round(maxTarget, 1),
+        max_pressure_bar: round(maxActual, 1),
+        average_puck_flow_ml_s: round(averageFlow),
+        phase_duration_seconds: round(duration, 1),
+      },
+      suggestion: 'The puck is too permeable to build pressure: grind finer or increase dose. If the phase also has a flow limit, it may be capping the pressure',
+    });
+  }
+  return findings;
+}
+
+function checkFlowRunaway({ shot }: DiagnosticsInput): ShotFinding[] {
+  // Only the part of the shot with real extraction flow
+  const flowing = shot.samples.filter(s => (s.pf || 0) > 0.2 && (s.cp || 0) > 1);
+  if (flowing.length < 8) return [];
+
+  const half = Math.floor(flowing.length / 2);
+  const baseline = median(flowing.slice(0, half).map(s => s.pf!));
+  if (baseline <= 0) return [];
+
+  const lastQuarter = flowing.slice(Math.floor(flowing.length * 0.75));
+  const lateFlow = median(lastQuarter.map(s => s.pf!));
+  if (lateFlow < baseline * THRESHOLDS.flowRunawayRatio) return [];
+
+  // Flow that follows rising pressure is the profile, not the puck
+  const basePressure = median(flowing.slice(0, half).map(s => s.cp || 0));
+  const latePressure = median(lastQuarter.map(s => s.cp || 0));
+  if (latePressure > basePressure + 0.5) return [];
+
+  const onset = flowing.slice(half).find(s => s.pf! >= baseline * THRESHOLDS.flowRunawayRatio);
+  const onsetTime = onset ? (onset.t || 0) / 1000 : (lastQuarter[0].t || 0) / 1000;
+  return [{
+    code: 'flow_runaway',
+    severity: 'warning',
+    phase: null,
+    time_seconds: onsetTime,
+    message: `Flow ran away after ${onsetTime}s: ${round(lateFlow, 1)} ml/s late vs ${round(baseline, 1)} ml/s earlier without a pressure increase`,
+    evidence: {
+      baseline_flow_ml_s: round(baseline),
+      late_flow_ml_s: round(lateFlow),
+      baseline_pressure_bar: round(basePressure, 1),
+      late_pressure_bar: round(latePressure, 1),
+    },
+    suggestion: 'The puck is eroding: grind finer, or lower pressure in the final phase (declining pressure or a flow-limited finish)',
+  }];
+}
+
+function checkChanneling({ puck }: DiagnosticsInput): ShotFinding[] {
+  return puck.flags
+    .filter(flag => flag.issue === 'early_channeling' || flag.issue === 'late_channeling')
+    .map(flag => {
+      const event = puck.events.find(e => e.time_seconds === flag.time_seconds);
+      return {
+        code: 'channeling' as const,
+        severity: event?.severity === 'major' ? 'problem' as const : 'warning' as const,
+        phase: null,
+        time_seconds: flag.time_seconds,
+        message: flag.message,
+        evidence: {
+          event: event?.type ?? null,
+          pressure_bar: event?.pressure_bar ?? null,
+          flow_before_ml_s: event?.flow_before_ml_s ?? null,
+          flow_after_ml_s: event?.flow_after_ml_s ?? null,
+        },
+        suggestion: flag.issue === 'early_channeling'
+          ? 'Improve distribution (WDT) and tamp level; a slower pressure ramp after preinfusion reduces early channels'
+          : 'Reduce peak pressure or grind slightly coarser; a declining pressure finish protects a weakening puck',
+      };
+    });
+}
+
+function checkTemperature({ summary }: DiagnosticsInput): ShotFinding[] {
+  const temperature = summary.tracking.temperature;
+  if (!temperature || Math.abs(temperature.mean_error) < THRESHOLDS.temperatureError) return [];
+  const low = temperature.mean_error < 0;
+  return [{
+    code: 'temperature_off_target',
+    severity: 'warning',
+    phase: null,
+    time_seconds: null,
+    message: `Brew temperature averaged ${temperature.actual_average}°C against a ${temperature.target_average}°C target`,
+    evidence: {
+      target_average_c: temperature.target_average,
+      actual_average_c: temperature.actual_average,
+      mean_error_c: temperature.mean_error,
+    },
+    suggestion: low
+      ? 'Let the machine preheat longer or flush before the shot; taste differences may come from temperature rather than the recipe'
+      : 'Allow the boiler to settle after steaming before pulling the shot',
+  }];
+}
+
+function checkStopReason({ shot, profile }: DiagnosticsInput): ShotFinding[] {
+  if (!profile || !Array.isArray(profile.phases) || shot.weight === null) return [];
+
+  const weightTargets = profile.phases.flatMap((phase: any) =>
+    (phase.targets || []).filter((t: any) => t.type === 'volumetric').map((t: any) => t.value as number));
+  if (weightTargets.length === 0) return [];
+
+  const weightTarget = Math.max(...weightTargets);
+  const profileDuration = profile.phases.reduce((total: number, phase: any) => total + (phase.duration || 0), 0);
+  const shotDuration = shot.duration / 1000;
+  if (shot.weight >= weightTarget - THRESHOLDS.weightShortfall) return [];
+  if (shotDuration < profileDuration - THRESHOLDS.durationSlack) return [];
+
+  const scaleConnected = !!shot.samples[0]?.systemInfo?.bluetoothScaleConnected;
+  return [{
+    code: 'stopped_by_duration',
+    severity: 'problem',
+    phase: null,
+    time_seconds: shotDuration,
+    message: `Shot ended on phase durations at ${round(shotDuration, 1)}s with ${shot.weight}g, short of the ${weightTarget}g weight target`,
+    evidence: {
+      weight_target_g: weightTarget,
+      final_weight_g: shot.weight,
+      shot_duration_seconds: round(shotDuration, 1),
+      profile_duration_seconds: profileDuration,
+      scale_connected: scaleConnected,
+    },
+    suggestion: scaleConnected
+      ? 'Grind finer so the yield arrives within the profile time, or lengthen the final phase so the weight target ends the shot'
+      : 'No scale was connected, so weight targets could not stop the shot; connect the scale or rely on durations',
+  }];
+}
+
+const RULES = [
+  checkFirstDrip,
+  checkPressureReached,
+  checkFlowRunaway,
+  checkChanneling,
+  checkTemperature,
+  checkStopReason,
+];
+
+/**
+ * Run every diagnostic rule over an analysed shot. Findings are ordered by time, untimed last.
+ */
+export function diagnoseShot(input: DiagnosticsInput): ShotFinding[] {
+  const findings = RULES.flatMap(rule => rule(input));
+  return findings.sort((a, b) => (a.time_seconds ?? Infinity) - (b.time_seconds ?? Infinity));
+}
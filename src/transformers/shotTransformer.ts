@@ -1,4 +1,11 @@
 import { ShotData, ShotSample, PhaseTransition } from '../parsers/binaryShot.js';
+import { ShotNotes, normalizeShotNotes } from './notesTransformer.js';
+import { PumpTarget, TrackingSummary, calculateTracking } from './trackingAnalysis.js';
+import { PuckAnalysis, analyzePuck } from './puckAnalysis.js';
+import { ShotFinding, diagnoseShot } from './shotDiagnostics.js';
+import { PhaseStop, determinePhaseStop } from './phaseStops.js';
+import { hashProfile } from '../profiles/profileHash.js';
+import { round } from '../utils/math.js';
 
 interface TransformedSample {
   time_seconds: number;
@@ -8,6 +15,13 @@ interface TransformedSample {
   weight_g: number;
 }
 
+// Full curve samples also carry the secondary flow and weight channels
+interface CurveSample extends TransformedSample {
+  pump_flow_ml_s: number;
+  scale_flow_g_s: number;
+  estimated_weight_g: number;
+}
+
 interface PhaseData {
   name: string;
   phase_number: number;
@@ -17,10 +31,12 @@ interface PhaseData {
   avg_temperature_c: number;
   avg_pressure_bar: number;
   total_flow_ml: number;
+  tracking: TrackingSummary;
+  stop: PhaseStop;
   samples: TransformedSample[];
 }
 
-interface ShotSummary {
+export interface ShotSummary {
   temperature: {
     min_celsius: number;
     max_celsius: number;
@@ -32,21 +48,57 @@ interface ShotSummary {
     max_bar: number;
     average_bar: number;
     peak_time_seconds: number;
+    target_average: number | null;
   };
   flow: {
     total_volume_ml: number;
     average_flow_rate_ml_s: number;
     peak_flow_ml_s: number;
     time_to_first_drip_seconds: number | null;
+    target_average: number | null;
+    pump_volume_ml: number | null;
+    average_pump_flow_ml_s: number | null;
+    peak_pump_flow_ml_s: number | null;
+    average_scale_flow_g_s: number | null;
+    peak_scale_flow_g_s: number | null;
   };
   extraction: {
     extraction_time_seconds: number;
     preinfusion_time_seconds: number;
     main_extraction_seconds: number;
   };
+  tracking: TrackingSummary;
+  reconciliation: VolumeReconciliation;
+}
+
+// Where the water went: pumped, through the puck, into the cup
+interface VolumeReconciliation {
+  pump_volume_ml: number | null;
+  puck_volume_ml: number;
+  scale_weight_g: number | null;
+  estimated_weight_g: number | null;
+  // Pumped water that never passed the puck (absorbed by the coffee and held in the headspace)
+  puck_retention_ml: number | null;
+  scale_vs_estimate_g: number | null;
+  yield_g: number | null;
+  yield_source: 'scale' | 'estimated' | 'puck_flow' | null;
+}
+
+export interface ShotProfileRevision {
+  hash: string;
+  label: string;
+  saved_at: string;
+}
+
+// Data from outside the .slog file that is merged into the analysis
+export interface ShotContext {
+  notes?: any;
+  profileRevision?: ShotProfileRevision | null;
+  // Profile that brewed the shot, resolved from the recorded revision first
+  profile?: any;
 }
 
-interface TransformedShot {
+export interface TransformedShot {
   metadata: {
     shot_id: string;
     profile_name: string;
@@ -58,23 +110,47 @@ interface TransformedShot {
     sample_interval_ms: number;
     bluetooth_scale_connected: boolean;
     volumetric_mode: boolean;
+    profile_revision: ShotProfileRevision | null;
+    // Whether the profile passed in matches the recorded revision; when false it is not
+    // used for phase stops, tracking or diagnostics
+    profile_matches_shot: boolean | null;
   };
   summary: ShotSummary;
   phases: PhaseData[];
-  full_curve?: TransformedSample[];
+  puck_analysis: PuckAnalysis;
+  diagnostics: ShotFinding[];
+  notes: ShotNotes | null;
+  full_curve?: CurveSample[];
 }
 
-export function transformShotForAI(shot: ShotData, includeFullCurve: boolean = false): TransformedShot {
+// The profile to explain the shot with. One that no longer has the recorded revision's
+// hash describes targets the shot never ran with, so it is not used.
+function profileForShot(context: ShotContext): any | null {
+  if (!context.profile) {
+    return null;
+  }
+  if (context.profileRevision && hashProfile(context.profile) !== context.profileRevision.hash) {
+    return null;
+  }
+  return context.profile;
+}
+
+export function transformShotForAI(shot: ShotData, includeFullCurve: boolean = false, context: ShotContext = {}): TransformedShot {
   // Extract bluetooth scale and volumetric info from first sample
   const firstSample = shot.samples[0];
   const bluetoothConnected = firstSample?.systemInfo?.bluetoothScaleConnected || false;
   const volumetricMode = firstSample?.systemInfo?.shotStartedVolumetric || false;
 
+  const profile = profileForShot(context);
+  const pumpTargets = samplePumpTargets(shot, profile);
+
   // Calculate summaries
-  const summary = calculateSummary(shot);
+  const summary = calculateSummary(shot, pumpTargets);
 
   // Process phases
-  const phases = processPhases(shot);
+  const phases = processPhases(shot, profile, pumpTargets);
+
+  const puck = analyzePuck(shot);
 
   // Build result
   const result: TransformedShot = {
@@ -89,9 +165,16 @@ export function transformShotForAI(shot: ShotData, includeFullCurve: boolean = f
       sample_interval_ms: shot.sampleInterval,
       bluetooth_scale_connected: bluetoothConnected,
       volumetric_mode: volumetricMode,
+      profile_revision: context.profileRevision ?? null,
+      profile_matches_shot: context.profile && context.profileRevision
+        ? hashProfile(context.profile) === context.profileRevision.hash
+        : null,
     },
     summary,
     phases,
+    puck_analysis: puck,
+    diagnostics: diagnoseShot({ shot, summary, puck, profile, pumpTargets }),
+    notes: normalizeShotNotes(context.notes ?? null, shot.timestamp),
   };
 
   // Include full curve data if requested
@@ -102,18 +185,23 @@ export function transformShotForAI(shot: ShotData, includeFullCurve: boolean = f
       pressure_bar: sample.cp || 0,
       flow_ml_s: sample.pf || 0,
       weight_g: sample.v || 0,
+      pump_flow_ml_s: sample.fl || 0,
+      scale_flow_g_s: sample.vf || 0,
+      estimated_weight_g: sample.ev || 0,
     }));
   }
 
   return result;
 }
 
-function calculateSummary(shot: ShotData): ShotSummary {
+function calculateSummary(shot: ShotData, pumpTargets: (PumpTarget | null)[]): ShotSummary {
   const samples = shot.samples;
   
   // Temperature statistics
   const temperatures = samples.map(s => s.ct || 0).filter(t => t > 0);
   const targetTemps = samples.map(s => s.tt || 0).filter(t => t > 0);
+  const targetPressures = samples.map(s => s.tp || 0).filter(p => p > 0);
+  const targetFlows = samples.map(s => s.tf || 0).filter(f => f > 0);
   
   // Pressure statistics
   const pressures = samples.map(s => s.cp || 0);
@@ -124,6 +212,9 @@ function calculateSummary(shot: ShotData): ShotSummary {
   // Flow statistics
   const flows = samples.map(s => s.pf || 0); // Use puck flow as it's the actual flow through coffee
   const totalVolume = calculateTotalVolume(samples, shot.sampleInterval);
+  const pumpFlows = samples.filter(s => s.fl !== undefined).map(s => s.fl!);
+  const activePumpFlows = pumpFlows.filter(f => f > 0);
+  const scaleFlows = samples.filter(s => s.vf !== undefined).map(s => s.vf!).filter(f => f > 0);
   const nonZeroFlows = flows.filter(f => f > 0);
   const avgFlow = nonZeroFlows.length > 0 
     ? nonZeroFlows.reduce((a, b) => a + b, 0) / nonZeroFlows.length 
@@ -166,35 +257,123 @@ function calculateSummary(shot: ShotData): ShotSummary {
       max_bar: maxPressure,
       average_bar: pressures.reduce((a, b) => a + b, 0) / pressures.length,
       peak_time_seconds: peakPressureTime,
+      target_average: targetPressures.length > 0
+        ? Math.round(targetPressures.reduce((a, b) => a + b, 0) / targetPressures.length * 100) / 100
+        : null,
     },
     flow: {
       total_volume_ml: totalVolume,
       average_flow_rate_ml_s: avgFlow,
       peak_flow_ml_s: Math.max(...flows),
       time_to_first_drip_seconds: timeToFirstDrip,
+      target_average: targetFlows.length > 0
+        ? Math.round(targetFlows.reduce((a, b) => a + b, 0) / targetFlows.length * 100) / 100
+        : null,
+      pump_volume_ml: pumpFlows.length > 0 ? calculateTotalVolume(samples, shot.sampleInterval, 'fl') : null,
+      average_pump_flow_ml_s: activePumpFlows.length > 0
+        ? Math.round(activePumpFlows.reduce((a, b) => a + b, 0) / activePumpFlows.length * 100) / 100
+        : null,
+      peak_pump_flow_ml_s: activePumpFlows.length > 0 ? Math.max(...activePumpFlows) : null,
+      average_scale_flow_g_s: scaleFlows.length > 0
+        ? Math.round(scaleFlows.reduce((a, b) => a + b, 0) / scaleFlows.length * 100) / 100
+        : null,
+      peak_scale_flow_g_s: scaleFlows.length > 0 ? Math.max(...scaleFlows) : null,
     },
     extraction: {
       extraction_time_seconds: shot.duration / 1000,
       preinfusion_time_seconds: preinfusionTime,
       main_extraction_seconds: (shot.duration / 1000) - preinfusionTime,
     },
+    tracking: calculateTracking(samples, pumpTargets),
+    reconciliation: reconcileVolumes(shot, totalVolume),
   };
 }
 
-function calculateTotalVolume(samples: ShotSample[], intervalMs: number): number {
+function reconcileVolumes(shot: ShotData, puckVolume: number): VolumeReconciliation {
+  const samples = shot.samples;
+  const hasPumpFlow = samples.some(s => s.fl !== undefined);
+  const pumpVolume = hasPumpFlow ? calculateTotalVolume(samples, shot.sampleInterval, 'fl') : null;
+
+  // Weight only counts as measured when a scale reported something
+  const scaleConnected = samples.some(s => s.systemInfo?.bluetoothScaleConnected);
+  const maxScaleWeight = Math.max(0, ...samples.map(s => s.v || 0));
+  const scaleWeight = scaleConnected || maxScaleWeight > 0
+    ? round(shot.weight && shot.weight > 0 ? shot.weight : maxScaleWeight, 1)
+    : null;
+
+  const maxEstimated = Math.max(0, ...samples.map(s => s.ev || 0));
+  const estimatedWeight = maxEstimated > 0 ? round(maxEstimated, 1) : null;
+
+  let yieldGrams: number | null = null;
+  let yieldSource: VolumeReconciliation['yield_source'] = null;
+  if (scaleWeight !== null && scaleWeight > 0) {
+    yieldGrams = scaleWeight;
+    yieldSource = 'scale';
+  } else if (estimatedWeight !== null) {
+    yieldGrams = estimatedWeight;
+    yieldSource = 'estimated';
+  } else if (puckVolume > 0) {
+    // Espresso is close enough to 1 g/ml for a fallback
+    yieldGrams = puckVolume;
+    yieldSource = 'puck_flow';
+  }
+
+  return {
+    pump_volume_ml: pumpVolume,
+    puck_volume_ml: puckVolume,
+    scale_weight_g: scaleWeight,
+    estimated_weight_g: estimatedWeight,
+    puck_retention_ml: pumpVolume !== null ? round(Math.max(0, pumpVolume - puckVolume), 1) : null,
+    scale_vs_estimate_g: scaleWeight !== null && estimatedWeight !== null ? round(scaleWeight - estimatedWeight, 1) : null,
+    yield_g: yieldGrams,
+    yield_source: yieldSource,
+  };
+}
+
+function calculateTotalVolume(samples: ShotSample[], intervalMs: number, field: 'pf' | 'fl' = 'pf'): number {
   // Integrate flow over time to get volume
   let totalVolume = 0;
   const intervalSeconds = intervalMs / 1000;
   
   for (const sample of samples) {
-    const flow = sample.pf || 0; // ml/s
+    const flow = sample[field] || 0; // ml/s
     totalVolume += flow * intervalSeconds; // ml
   }
   
   return Math.round(totalVolume * 10) / 10; // Round to 0.1 ml
 }
 
-function processPhases(shot: ShotData): PhaseData[] {
+// Profile phase a shot phase was brewed with, by index and falling back to name
+function findProfilePhase(profile: any, phase: PhaseTransition): any | null {
+  const profilePhases = Array.isArray(profile?.phases) ? profile.phases : [];
+  const byIndex = profilePhases[phase.phaseNumber];
+  if (byIndex && byIndex.name === phase.phaseName) {
+    return byIndex;
+  }
+  return profilePhases.find((p: any) => p.name === phase.phaseName) ?? byIndex ?? null;
+}
+
+// Pump target of the profile phase each sample belongs to (null where unknown, or for a soak)
+function samplePumpTargets(shot: ShotData, profile: any | null): (PumpTarget | null)[] {
+  const targets: (PumpTarget | null)[] = shot.samples.map(() => null);
+  const profilePhases = Array.isArray(profile?.phases) ? profile.phases : [];
+  const ranges = shot.phases.length > 0
+    ? shot.phases.map((phase, i) => ({
+        profilePhase: findProfilePhase(profile, phase),
+        start: phase.sampleIndex,
+        end: shot.phases[i + 1]?.sampleIndex ?? shot.samples.length,
+      }))
+    : [{ profilePhase: profilePhases.length === 1 ? profilePhases[0] : null, start: 0, end: shot.samples.length }];
+
+  for (const { profilePhase, start, end } of ranges) {
+    const pump = profilePhase?.pump;
+    const target = pump && typeof pump === 'object' && (pump.target === 'pressure' || pump.target === 'flow') ? pump.target : null;
+    targets.fill(target, start, end);
+  }
+  return targets;
+}
+
+function processPhases(shot: ShotData, profile: any | null, pumpTargets: (PumpTarget | null)[]): PhaseData[] {
   const phases: PhaseData[] = [];
   const samples = shot.samples;
   
@@ -239,6 +418,8 @@ function processPhases(shot: ShotData): PhaseData[] {
     
     const startTime = (phaseSamples[0].t || 0) / 1000;
     const endTime = (phaseSamples[phaseSamples.length - 1].t || 0) / 1000;
+    // A phase lasts until the next one starts, or until the shot ends
+    const endMs = nextPhase ? (samples[nextPhase.sampleIndex]?.t ?? shot.duration) : shot.duration;
     
     phases.push({
       name: phase.phaseName,
@@ -253,6 +434,14 @@ function processPhases(shot: ShotData): PhaseData[] {
         ? Math.round(pressures.reduce((a, b) => a + b, 0) / pressures.length * 10) / 10
         : 0,
       total_flow_ml: totalFlow,
+      tracking: calculateTracking(phaseSamples, pumpTargets.slice(startIndex, endIndex)),
+      stop: determinePhaseStop(
+        phaseSamples,
+        findProfilePhase(profile, phase),
+        endMs - (phaseSamples[0].t || 0),
+        shot.sampleInterval,
+        !nextPhase,
+      ),
       samples: representativeSamples,
     });
   }
@@ -294,6 +483,14 @@ function processPhases(shot: ShotData): PhaseData[] {
         ? Math.round(pressures.reduce((a, b) => a + b, 0) / pressures.length * 10) / 10
         : 0,
       total_flow_ml: totalFlow,
+      tracking: calculateTracking(samples, pumpTargets),
+      stop: determinePhaseStop(
+        samples,
+        Array.isArray(profile?.phases) && profile.phases.length === 1 ? profile.phases[0] : null,
+        shot.duration,
+        shot.sampleInterval,
+        true,
+      ),
       samples: representativeSamples,
     });
   }
@@ -0,0 +1,226 @@
+// Rolling statistics and simple regressions over many analysed shots
+// Answers "how is this bean dialling in" from a few numbers per shot instead of full curves
+
+import { TransformedShot } from './shotTransformer.js';
+import { round } from '../utils/math.js';
+import { linearRegression } from '../utils/statistics.js';
+
+export const TREND_METRICS = [
+  'yield_g',
+  'duration_seconds',
+  'peak_pressure_bar',
+  'first_drip_seconds',
+  'temperature_rmse_c',
+  'rating',
+] as const;
+export type TrendMetric = typeof TREND_METRICS[number];
+
+// Fewest points a regression is tested with
+const MIN_REGRESSION_POINTS = 8;
+// Slope (per day) below which a metric counts as flat, relative to its mean
+const FLAT_RELATIVE_SLOPE = 0.01;
+// Regressions with less explained variance are dropped even when significant
+const MIN_R_SQUARED = 0.3;
+// Family-wise significance level, split across every metric/parameter pair tested (Bonferroni)
+const TREND_SIGNIFICANCE = 0.05;
+
+// Smallest range a recipe parameter must span across the shots to be regressed against;
+// below it the "variation" is rounding or scale noise
+const MIN_PARAMETER_RANGE: Record<string, number> = {
+  temperature_c: 0.5,
+  profile_duration_seconds: 1,
+  preinfusion_seconds: 1,
+  max_target_pressure_bar: 0.2,
+  max_target_flow_ml_s: 0.2,
+  dose_in_g: 0.2,
+  grind_setting: 0,
+  days_off_roast: 2,
+};
+
+export interface TrendShotInput {
+  analysis: TransformedShot;
+  // Profile that brewed the shot, when known
+  profile: any | null;
+}
+
+interface MetricTrend {
+  count: number;
+  mean: number | null;
+  stddev: number | null;
+  min: number | null;
+  max: number | null;
+  first: number | null;
+  last: number | null;
+  slope_per_day: number | null;
+  direction: 'rising' | 'falling' | 'flat' | null;
+  rolling_mean: (number | null)[];
+}
+
+interface Regression {
+  metric: TrendMetric;
+  parameter: string;
+  n: number;
+  slope: number;
+  intercept: number;
+  r_squared: number;
+  p_value: number;
+}
+
+export interface ShotTrends {
+  shot_count: number;
+  window: number;
+  from: string | null;
+  to: string | null;
+  shots: ({ shot_id: string; timestamp: string; profile_name: string; bean: string | null } & Record<TrendMetric, number | null>)[];
+  metrics: Record<TrendMetric, MetricTrend>;
+  regressions: Regression[];
+  // Pairs with enough points and a varying parameter, and the per-test p-value threshold they were held to
+  regressions_tested: number;
+  significance_threshold: number | null;
+}
+
+function metricValues(analysis: TransformedShot): Record<TrendMetric, number | null> {
+  return {
+    yield_g: analysis.summary.reconciliation.yield_g,
+    duration_seconds: analysis.metadata.duration_seconds,
+    peak_pressure_bar: analysis.summary.pressure.max_bar,
+    first_drip_seconds: analysis.summary.flow.time_to_first_drip_seconds,
+    temperature_rmse_c: analysis.summary.tracking.temperature?.rmse ?? null,
+    rating: analysis.notes?.rating ?? null,
+  };
+}
+
+// Recipe parameters a metric can be regressed against
+function parameterValues({ analysis, profile }: TrendShotInput): Record<string, number | null> {
+  const phases: any[] = Array.isArray(profile?.phases) ? profile.phases : [];
+  const pumps = phases.map(phase => phase.pump).filter(Boolean);
+  const grindText = analysis.notes?.grind_setting;
+  const grind = grindText ? Number(grindText) : NaN;
+  return {
+    temperature_c: typeof profile?.temperature === 'number' ? profile.temperature : null,
+    profile_duration_seconds: phases.length > 0 ? phases.reduce((total, phase) => total + (phase.duration || 0), 0) : null,
+    preinfusion_seconds: phases.length > 0
+      ? phases.filter(phase => phase.phase === 'preinfusion').reduce((total, phase) => total + (phase.duration || 0), 0)
+      : null,
+    max_target_pressure_bar: pumps.length > 0 ? Math.max(...pumps.map(pump => pump.pressure || 0)) : null,
+    max_target_flow_ml_s: pumps.length > 0 ? Math.max(...pumps.map(pump => pump.flow || 0)) : null,
+    dose_in_g: analysis.notes?.dose_in_g ?? null,
+    grind_setting: Number.isFinite(grind) ? grind : null,
+    days_off_roast: analysis.notes?.days_off_roast ?? null,
+  };
+}
+
+function metricTrend(values: (number | null)[], days: number[], window: number): MetricTrend {
+  const present = values.filter((v): v is number => v !== null);
+  const mean = present.length > 0 ? present.reduce((a, b) => a + b, 0) / present.length : null;
+  const stddev = mean !== null && present.length > 1
+    ? Math.sqrt(present.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (present.length - 1))
+    : null;
+
+  const fit = linearRegression(values.flatMap((v, i) => (v !== null ? [[days[i], v] as [number, number]] : [])));
+  let direction: MetricTrend['direction'] = null;
+  if (fit && mean !== null) {
+    const relative = mean !== 0 ? Math.abs(fit.slope / mean) : Math.abs(fit.slope);
+    direction = relative < FLAT_RELATIVE_SLOPE ? 'flat' : fit.slope > 0 ? 'rising' : 'falling';
+  }
+
+  const rolling = values.map((_, i) => {
+    const slice = values.slice(Math.max(0, i - window + 1), i + 1).filter((v): v is number => v !== null);
+    return slice.length > 0 ? round(slice.reduce((a, b) => a + b, 0) / slice.length) : null;
+  });
+
+  return {
+    count: present.length,
+    mean: mean !== null ? round(mean) : null,
+    stddev: stddev !== null ? round(stddev) : null,
+    min: present.length > 0 ? round(Math.min(...present)) : null,
+    max: present.length > 0 ? round(Math.max(...present)) : null,
+    first: present.length > 0 ? round(present[0]) : null,
+    last: present.length > 0 ? round(present[present.length - 1]) : null,
+    slope_per_day: fit ? round(fit.slope, 3) : null,
+    direction,
+    rolling_mean: rolling,
+  };
+}
+
+/**
+ * Trends over shots in chronological order.
+ * Regressions pair every metric with every recipe parameter that varied by more than a trivial
+ * amount over at least 8 shots. A fit is kept when its slope is significant at 0.05 after a
+ * Bonferroni correction for the number of pairs tested and its r² is at least 0.3, strongest first.
+ */
+export function calculateShotTrends(inputs: TrendShotInput[], window: number): ShotTrends {
+  const sorted = [...inputs].sort((a, b) => Date.parse(a.analysis.metadata.timestamp) - Date.parse(b.analysis.metadata.timestamp));
+  const metrics = sorted.map(input => metricValues(input.analysis));
+  const parameters = sorted.map(parameterValues);
+  const start = sorted.length > 0 ? Date.parse(sorted[0].analysis.metadata.timestamp) : 0;
+  const days = sorted.map(input => (Date.parse(input.analysis.metadata.timestamp) - start) / 86400000);
+
+  const trends = {} as Record<TrendMetric, MetricTrend>;
+  for (const metric of TREND_METRICS) {
+    trends[metric] = metricTrend(metrics.map(m => m[metric]), days, window);
+  }
+
+  const parameterNames = parameters.length > 0 ? Object.keys(parameters[0]) : [];
+  const candidates: { metric: TrendMetric; parameter: string; points: [number, number][] }[] = [];
+  for (const metric of TREND_METRICS) {
+    for (const parameter of parameterNames) {
+      const points: [number, number][] = [];
+      sorted.forEach((_, i) => {
+        const x = parameters[i][parameter];
+        const y = metrics[i][metric];
+        if (x !== null && y !== null) points.push([x, y]);
+      });
+      if (points.length < MIN_REGRESSION_POINTS) continue;
+      const xs = points.map(([x]) => x);
+      const ys = points.map(([, y]) => y);
+      if (Math.max(...xs) - Math.min(...xs) <= (MIN_PARAMETER_RANGE[parameter] ?? 0)) continue;
+      // A constant metric has nothing to explain and would only tighten the correction
+      if (Math.max(...ys) === Math.min(...ys)) continue;
+      candidates.push({ metric, parameter, points });
+    }
+  }
+
+  const threshold = candidates.length > 0 ? TREND_SIGNIFICANCE / candidates.length : null;
+  const regressions: Regression[] = [];
+  for (const { metric, parameter, points } of candidates) {
+    const fit = linearRegression(points);
+    if (!fit || threshold === null || fit.p_value >= threshold || fit.r_squared < MIN_R_SQUARED) continue;
+    regressions.push({
+      metric,
+      parameter,
+      n: fit.n,
+      slope: round(fit.slope, 3),
+      intercept: round(fit.intercept, 2),
+      r_squared: round(fit.r_squared, 3),
+      p_value: Number(fit.p_value.toPrecision(2)),
+    });
+  }
+  regressions.sort((a, b) => b.r_squared - a.r_squared);
+
+  return {
+    shot_count: sorted.length,
+    window,
+    from: sorted[0]?.analysis.metadata.timestamp ?? null,
+    to: sorted[sorted.length - 1]?.analysis.metadata.timestamp ?? null,
+    shots: sorted.map((input, i) => {
+      const notes = input.analysis.notes;
+      const values = {} as Record<TrendMetric, number | null>;
+      for (const metric of TREND_METRICS) {
+        const value = metrics[i][metric];
+        values[metric] = value !== null ? round(value) : null;
+      }
+      return {
+        shot_id: input.analysis.metadata.shot_id,
+        timestamp: input.analysis.metadata.timestamp,
+        profile_name: input.analysis.metadata.profile_name,
+        bean: notes?.bean_name ?? notes?.bean_id ?? null,
+        ...values,
+      };
+    }),
+    metrics: trends,
+    regressions,
+    regressions_tested: candidates.length,
+    significance_threshold: threshold !== null ? Number(threshold.toPrecision(2)) : null,
+  };
+}
@@ -0,0 +1,120 @@
+// How closely the machine followed its own targets (tt/tp/tf vs ct/cp/pf)
+// Separates "the recipe was wrong" from "the machine could not execute the recipe"
+
+import { ShotSample } from '../parsers/binaryShot.js';
+import { round } from '../utils/math.js';
+
+// Distance from target that counts as "on target"
+const TOLERANCE = {
+  pressure: 0.3, // bar
+  flow: 0.3, // ml/s
+  temperature: 1.0, // °C
+};
+
+export interface TrackingMetrics {
+  sample_count: number;
+  target_average: number;
+  actual_average: number;
+  rmse: number;
+  mean_error: number;
+  max_deviation: number;
+  max_deviation_time_seconds: number;
+  time_to_target_seconds: number | null;
+  overshoot: number;
+  time_within_tolerance_percent: number;
+}
+
+// Variable the pump controls; the other target recorded in the samples is only a limit
+export type PumpTarget = 'pressure' | 'flow';
+
+export interface TrackingSummary {
+  pressure: TrackingMetrics | null;
+  flow: TrackingMetrics | null;
+  temperature: TrackingMetrics | null;
+}
+
+// Without the profile, a sample with only one of tp/tf set is controlled by that one;
+// with both set the limit cannot be told from the target, so the sample is not scored
+export function inferPumpTarget(sample: ShotSample): PumpTarget | null {
+  const pressure = (sample.tp || 0) > 0;
+  const flow = (sample.tf || 0) > 0;
+  if (pressure === flow) return null;
+  return pressure ? 'pressure' : 'flow';
+}
+
+function trackVariable(
+  samples: ShotSample[],
+  targetKey: 'tp' | 'tf' | 'tt',
+  actualKey: 'cp' | 'pf' | 'ct',
+  tolerance: number,
+  scored: (sample: ShotSample, index: number) => boolean = () => true,
+): TrackingMetrics | null {
+  // A zero target means the variable is not being controlled
+  const points = samples.filter((s, i) => (s[targetKey] || 0) > 0 && s[actualKey] !== undefined && scored(s, i));
+  if (points.length === 0) return null;
+
+  const startTime = samples[0]?.t || 0;
+  let sumSquares = 0;
+  let sumError = 0;
+  let sumTarget = 0;
+  let sumActual = 0;
+  let maxDeviation = 0;
+  let maxDeviationTime = 0;
+  let timeToTarget: number | null = null;
+  let overshoot = 0;
+  let within = 0;
+
+  for (const sample of points) {
+    const target = sample[targetKey]!;
+    const actual = sample[actualKey]!;
+    const error = actual - target;
+
+    sumSquares += error * error;
+    sumError += error;
+    sumTarget += target;
+    sumActual += actual;
+
+    if (Math.abs(error) > Math.abs(maxDeviation)) {
+      maxDeviation = error;
+      maxDeviationTime = (sample.t || 0) / 1000;
+    }
+    if (Math.abs(error) <= tolerance) {
+      within++;
+      if (timeToTarget === null) {
+        timeToTarget = ((sample.t || 0) - startTime) / 1000;
+      }
+    }
+    // Overshoot only counts once the target has been reached
+    if (timeToTarget !== null && error > overshoot) {
+      overshoot = error;
+    }
+  }
+
+  return {
+    sample_count: points.length,
+    target_average: round(sumTarget / points.length),
+    actual_average: round(sumActual / points.length),
+    rmse: round(Math.sqrt(sumSquares / points.length)),
+    mean_error: round(sumError / points.length),
+    max_deviation: round(maxDeviation),
+    max_deviation_time_seconds: maxDeviationTime,
+    time_to_target_seconds: timeToTarget !== null ? round(timeToTarget) : null,
+    overshoot: round(overshoot),
+    time_within_tolerance_percent: round((within / points.length) * 100, 1),
+  };
+}
+
+/**
+ * Target-vs-actual tracking for pressure, flow and temperature over a range of samples.
+ * pumpTargets gives the profile's pump target for each sample; pressure and flow are only
+ * scored where they are the target, so limits do not count as misses.
+ * Time to target is measured from the first sample in the range.
+ */
+export function calculateTracking(samples: ShotSample[], pumpTargets: (PumpTarget | null)[] = []): TrackingSummary {
+  const pumpTargetAt = (sample: ShotSample, i: number) => pumpTargets[i] ?? inferPumpTarget(sample);
+  return {
+    pressure: trackVariable(samples, 'tp', 'cp', TOLERANCE.pressure, (s, i) => pumpTargetAt(s, i) === 'pressure'),
+    flow: trackVariable(samples, 'tf', 'pf', TOLERANCE.flow, (s, i) => pumpTargetAt(s, i) === 'flow'),
+    temperature: trackVariable(samples, 'tt', 'ct', TOLERANCE.temperature),
+  };
+}
@@ -0,0 +1,10 @@
+// Date helpers shared across modules
+
+/**
+ * Whole days between a roast date (YYYY-MM-DD) and a time in unix seconds
+ */
+export function daysOffRoast(roastDate: string | null, timestamp: number): number | null {
+  if (!roastDate) return null;
+  const roastTime = Date.parse(roastDate);
+  return Number.isNaN(roastTime) ? null : Math.floor((timestamp * 1000 - roastTime) / 86400000);
+}
@@ -0,0 +1,6 @@
+// Numeric helpers shared across modules
+
+export function round(value: number, digits: number = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
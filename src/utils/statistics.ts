@@ -0,0 +1,102 @@
+// Least-squares fit with the significance of its slope
+// Used where many parameter pairs are tested, so a fit is judged by its p-value and not by r² alone
+
+export interface LinearFit {
+  n: number;
+  slope: number;
+  intercept: number;
+  r_squared: number;
+  // Two-sided p-value of the slope under a t-test with n - 2 degrees of freedom
+  p_value: number;
+}
+
+// Lanczos approximation (g = 7, n = 9)
+const LANCZOS = [
+  0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+  -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6,
+  1.5056327351493116e-7,
+];
+
+function logGamma(x: number): number {
+  if (x < 0.5) {
+    return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+  }
+  const z = x - 1;
+  let sum = LANCZOS[0];
+  for (let i = 1; i < LANCZOS.length; i++) {
+    sum += LANCZOS[i] / (z + i);
+  }
+  const t = z + LANCZOS.length - 1.5;
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
+// Continued fraction for the incomplete beta function (modified Lentz's method)
+function betaContinuedFraction(a: number, b: number, x: number): number {
+  const tiny = 1e-300;
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  d = 1 / (Math.abs(d) < tiny ? tiny : d);
+  let h = d;
+  for (let m = 1; m <= 200; m++) {
+    const m2 = 2 * m;
+    for (const aa of [
+      (m * (b - m) * x) / ((a + m2 - 1) * (a + m2)),
+      (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1)),
+    ]) {
+      d = 1 + aa * d;
+      d = 1 / (Math.abs(d) < tiny ? tiny : d);
+      c = 1 + aa / c;
+      if (Math.abs(c) < tiny) c = tiny;
+      h *= d * c;
+    }
+    if (Math.abs(d * c - 1) < 3e-14) break;
+  }
+  return h;
+}
+
+function regularizedIncompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  return x < (a + 1) / (a + b + 2)
+    ? (front * betaContinuedFraction(a, b, x)) / a
+    : 1 - (front * betaContinuedFraction(b, a, 1 - x)) / b;
+}
+
+/**
+ * Two-sided p-value of a t statistic
+ */
+export function tTestPValue(t: number, degreesOfFreedom: number): number {
+  if (!Number.isFinite(t)) return 0;
+  return regularizedIncompleteBeta(degreesOfFreedom / (degreesOfFreedom + t * t), degreesOfFreedom / 2, 0.5);
+}
+
+/**
+ * Ordinary least squares of y on x. Null with fewer than two points or when x never varies;
+ * a two-point fit has no degrees of freedom left and a p-value of 1.
+ */
+export function linearRegression(points: [number, number][]): LinearFit | null {
+  const n = points.length;
+  if (n < 2) return null;
+  const meanX = points.reduce((sum, [x]) => sum + x, 0) / n;
+  const meanY = points.reduce((sum, [, y]) => sum + y, 0) / n;
+  let sxx = 0;
+  let sxy = 0;
+  let syy = 0;
+  for (const [x, y] of points) {
+    sxx += (x - meanX) ** 2;
+    sxy += (x - meanX) * (y - meanY);
+    syy += (y - meanY) ** 2;
+  }
+  if (sxx === 0) return null;
+  const slope = sxy / sxx;
+  const rSquared = syy === 0 ? 0 : (sxy * sxy) / (sxx * syy);
+  const t = rSquared >= 1 ? Infinity : Math.sqrt((rSquared * (n - 2)) / (1 - rSquared));
+  return {
+    n,
+    slope,
+    intercept: meanY - slope * meanX,
+    r_squared: rSquared,
+    p_value: n < 3 || syy === 0 ? 1 : tTestPValue(t, n - 2),
+  };
+}
@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'node:path';
+import { BeanStore, BeanShotInput } from '../src/store/beanStore.js';
+import { daysOffRoast } from '../src/utils/dates.js';
+import { withTempDir } from './helpers.js';
+
+function withStore(run: (store: BeanStore) => Promise<void>): Promise<void> {
+  return withTempDir(dir => run(new BeanStore(path.join(dir, 'beans.json'))));
+}
+
+function shot(shotId: string, dose: number | null): BeanShotInput {
+  return { shotId, dose, timestamp: Date.UTC(2026, 9, 10) / 1000, profileId: 'ai', profileName: 'AI Profile' };
+}
+
+test('counts days off roast in whole days', () => {
+  assert.equal(daysOffRoast('2026-10-01', Date.UTC(2026, 9, 10, 12) / 1000), 9);
+  assert.equal(daysOffRoast(null, 0), null);
+});
+
+test('takes doses off the bag and never below zero', async () => {
+  await withStore(async store => {
+    const bean = await store.addBean({ name: 'Guji', bagWeight: 30 });
+    await store.associateShot(bean.id, shot('1', 18));
+    const association = await store.associateShot(bean.id, shot('2', 18));
+    assert.equal(association?.bean.remaining_g, 0);
+  });
+});
+
+test('moving a shot gives its dose back to the previous bean', async () => {
+  await withStore(async store => {
+    const first = await store.addBean({ name: 'Guji', bagWeight: 250 });
+    const second = await store.addBean({ name: 'Huila', bagWeight: 250 });
+    await store.associateShot(first.id, shot('1', 18));
+    const association = await store.associateShot(second.id, shot('1', 18));
+    assert.equal(association?.previous_bean_id, first.id);
+    assert.equal((await store.getBean(first.id))?.remaining_g, 250);
+    assert.equal(association?.bean.remaining_g, 232);
+  });
+});
+
+test('a new bag weight recomputes the remainder from the shot doses', async () => {
+  await withStore(async store => {
+    const bean = await store.addBean({ name: 'Guji' });
+    await store.associateShot(bean.id, shot('1', 18));
+    await store.associateShot(bean.id, shot('2', 18.5));
+    const updated = await store.updateBean({ beanId: bean.id, bagWeight: 250 });
+    assert.equal(updated?.remaining_g, 213.5);
+    const small = await store.updateBean({ beanId: bean.id, bagWeight: 20 });
+    assert.equal(small?.remaining_g, 0);
+  });
+});
+
+test('keeps a corrected remainder within the bag', async () => {
+  await withStore(async store => {
+    const bean = await store.addBean({ name: 'Guji', bagWeight: 250 });
+    assert.equal((await store.updateBean({ beanId: bean.id, remainingWeight: 400 }))?.remaining_g, 250);
+    assert.equal((await store.updateBean({ beanId: bean.id, remainingWeight: 120 }))?.remaining_g, 120);
+  });
+});
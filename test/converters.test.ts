@@ -0,0 +1,119 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { exportProfile, importProfile } from '../src/converters/index.js';
+import { PROFILE_LIMITS, ProProfileSchema } from '../src/schemas/profile.js';
+
+function assertSavable(profile: any): void {
+  const result = ProProfileSchema.safeParse({ ...profile, label: 'Imported', type: 'pro' });
+  assert.ok(result.success, result.success ? '' : JSON.stringify(result.error.issues));
+}
+
+const decentBlooming = {
+  title: 'Blooming espresso',
+  notes: 'Long smooth ramp',
+  target_weight: '36',
+  steps: [
+    { name: 'Fill', pump: 'flow', transition: 'fast', flow: '6', pressure: '0', seconds: '8', temperature: '93', exit: { type: 'pressure', condition: 'over', value: '3' }, limiter: { value: '4', range: '0.6' } },
+    { name: 'Bloom', pump: 'pressure', transition: 'fast', pressure: '0', flow: '0', seconds: '15', temperature: '93' },
+    { name: 'Ramp', pump: 'pressure', transition: 'smooth', pressure: '9', flow: '0', seconds: '45', temperature: '93' },
+  ],
+};
+
+test('Decent import clamps long smooth steps and keeps the profile savable', () => {
+  const result = importProfile('decent-json', JSON.stringify(decentBlooming));
+  const [fill, bloom, ramp] = result.profile.phases;
+
+  assert.equal(result.name, 'Blooming espresso');
+  assert.deepEqual(fill.pump, { target: 'flow', flow: 6, pressure: 4 });
+  assert.deepEqual(fill.targets, [{ type: 'pressure', operator: 'gte', value: 3 }]);
+  assert.equal(fill.phase, 'preinfusion');
+  assert.equal(bloom.pump, 0);
+  assert.equal(ramp.duration, 45);
+  assert.equal(ramp.transition.duration, PROFILE_LIMITS.maxTransitionDuration);
+  assert.deepEqual(ramp.targets, [{ type: 'volumetric', operator: 'gte', value: 36 }]);
+  assert.ok(result.unsupported.some(note => note.startsWith('Ramp: 45s ramp shortened to 30s')));
+  assertSavable(result.profile);
+});
+
+test('Decent JSON and Tcl exports import back to the same phases', () => {
+  const imported = importProfile('decent-json', JSON.stringify(decentBlooming)).profile;
+  const profile = { ...imported, label: 'Blooming espresso', type: 'pro' };
+
+  for (const format of ['decent-json', 'decent-tcl'] as const) {
+    const exported = exportProfile(format, profile);
+    const reimported = importProfile(format, exported.content).profile;
+    assert.deepEqual(reimported.phases.map((phase: any) => phase.pump), imported.phases.map((phase: any) => phase.pump), format);
+    assert.deepEqual(reimported.phases.map((phase: any) => phase.duration), [8, 15, 45], format);
+  }
+});
+
+test('Gaggiuino import maps curves, restrictions and stop conditions', () => {
+  const gaggiuino = {
+    name: 'Slow ramp',
+    waterTemperature: 92,
+    phases: [
+      { name: 'Soak', type: 'PRESSURE', target: { end: 0, curve: 'INSTANT' }, stopConditions: { time: 10000 } },
+      { name: 'Extract', type: 'FLOW', target: { end: 2, curve: 'EASE_OUT', time: 40000 }, restriction: 9, stopConditions: { time: 50000, weight: 40 } },
+    ],
+    globalStopConditions: { weight: 40 },
+  };
+  const result = importProfile('gaggiuino', JSON.stringify(gaggiuino));
+  const [soak, extract] = result.profile.phases;
+
+  assert.equal(result.profile.temperature, 92);
+  assert.equal(soak.pump, 0);
+  assert.deepEqual(extract.pump, { target: 'flow', flow: 2, pressure: 9 });
+  assert.deepEqual(extract.transition, { type: 'ease-out', duration: 30, adaptive: true });
+  assert.deepEqual(extract.targets, [{ type: 'volumetric', operator: 'gte', value: 40 }]);
+  assertSavable(result.profile);
+});
+
+test('Meticulous import resolves variables and clamps the ramp', () => {
+  const meticulous = {
+    name: 'Lever',
+    author: 'Someone',
+    temperature: 90,
+    final_weight: 0,
+    variables: [{ key: 'peak', value: 8.5 }],
+    stages: [
+      {
+        name: 'Decline',
+        type: 'pressure',
+        dynamics: { points: [[0, 2], [40, '$peak']], over: 'time', interpolation: 'linear' },
+        exit_triggers: [{ type: 'time', value: 60, comparison: '>=' }, { type: 'weight', value: 42, comparison: '>=' }],
+        limits: [{ type: 'flow', value: 3 }],
+      },
+    ],
+  };
+  const result = importProfile('meticulous', JSON.stringify(meticulous));
+  const [decline] = result.profile.phases;
+
+  assert.equal(result.profile.temperature, 90);
+  assert.deepEqual(decline.pump, { target: 'pressure', pressure: 8.5, flow: 3 });
+  assert.equal(decline.duration, 60);
+  assert.equal(decline.transition.duration, 30);
+  assert.deepEqual(decline.targets, [{ type: 'volumetric', operator: 'gte', value: 42 }]);
+  assertSavable(result.profile);
+});
+
+test('exports read a soak phase as 0 bar', () => {
+  const profile = {
+    label: 'Soak test',
+    type: 'pro',
+    temperature: 93,
+    phases: [
+      { name: 'Soak', phase: 'preinfusion', duration: 10, pump: 0, targets: [] },
+      { name: 'Brew', phase: 'brew', duration: 25, pump: { target: 'pressure', pressure: 9, flow: 0 }, targets: [] },
+    ],
+  };
+  const meticulous = JSON.parse(exportProfile('meticulous', profile).content);
+  assert.deepEqual(meticulous.stages[0].dynamics.points, [[0, 0]]);
+
+  const gaggiuino = JSON.parse(exportProfile('gaggiuino', profile).content);
+  assert.equal(gaggiuino.phases[0].target.end, 0);
+});
+
+test('rejects content without steps', () => {
+  assert.throws(() => importProfile('decent-json', '{}'), /Failed to import decent-json profile/);
+  assert.throws(() => importProfile('meticulous', 'not json'), /Failed to import meticulous profile/);
+});
@@ -0,0 +1,123 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { once } from 'node:events';
+import { AddressInfo } from 'node:net';
+import { WebSocket, WebSocketServer } from 'ws';
+import { GaggimateClient, GaggimateMessage, reconnectDelay } from '../src/client/gaggimateClient.js';
+
+// A stand-in device; the handler sees every request and may answer it over the socket
+async function withDevice(
+  handle: (request: GaggimateMessage, socket: WebSocket) => void,
+  run: (client: GaggimateClient, server: WebSocketServer) => Promise<void>,
+  requestTimeout: number = 1000,
+): Promise<void> {
+  const server = new WebSocketServer({ port: 0 });
+  await once(server, 'listening');
+  server.on('connection', socket => {
+    socket.on('message', data => handle(JSON.parse(data.toString()), socket));
+  });
+  const client = new GaggimateClient({
+    url: `ws://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    requestTimeout,
+  });
+  try {
+    await run(client, server);
+  } finally {
+    client.close();
+    for (const socket of server.clients) socket.terminate();
+    await new Promise(resolve => server.close(resolve));
+  }
+}
+
+test('matches responses to requests by rid', async () => {
+  const held: { request: GaggimateMessage; socket: WebSocket }[] = [];
+  await withDevice(
+    (request, socket) => {
+      held.push({ request, socket });
+      if (held.length < 2) return;
+      // Answer both requests in reverse order
+      for (const { request, socket } of [...held].reverse()) {
+        socket.send(JSON.stringify({ tp: 'res:history:notes:get', rid: request.rid, notes: { id: request.id } }));
+      }
+    },
+    async client => {
+      const [first, second] = await Promise.all([client.getShotNotes('1'), client.getShotNotes('2')]);
+      assert.deepEqual(first, { id: '1' });
+      assert.deepEqual(second, { id: '2' });
+    },
+  );
+});
+
+test('passes other messages to subscribers', async () => {
+  await withDevice(
+    (request, socket) => {
+      socket.send(JSON.stringify({ tp: 'evt:status', mode: 1 }));
+      socket.send(JSON.stringify({ tp: 'res:profiles:list', rid: request.rid, profiles: [] }));
+    },
+    async client => {
+      const events: GaggimateMessage[] = [];
+      const unsubscribe = client.subscribe(message => events.push(message));
+      assert.deepEqual(await client.listProfiles(), []);
+      unsubscribe();
+      assert.deepEqual(events, [{ tp: 'evt:status', mode: 1 }]);
+    },
+  );
+});
+
+test('rejects a request the device does not answer in time', async () => {
+  await withDevice(
+    () => {},
+    async client => {
+      await assert.rejects(client.listProfiles(), /Request timeout/);
+    },
+    100,
+  );
+});
+
+test('surfaces device errors', async () => {
+  await withDevice(
+    (request, socket) => socket.send(JSON.stringify({ tp: 'res:profiles:save', rid: request.rid, error: 'full' })),
+    async client => {
+      await assert.rejects(client.saveProfile({ label: 'x' }), /Failed to save profile: full/);
+    },
+  );
+});
+
+test('rejects pending requests when the client closes', async () => {
+  await withDevice(
+    () => {},
+    async client => {
+      const pending = client.listProfiles();
+      await new Promise(resolve => setTimeout(resolve, 20));
+      client.close();
+      await assert.rejects(pending, /client closed/);
+    },
+  );
+});
+
+test('rejects pending requests when the device drops the connection', async () => {
+  await withDevice(
+    (_request, socket) => socket.terminate(),
+    async client => {
+      await assert.rejects(client.listProfiles(), /closed unexpectedly/);
+    },
+  );
+});
+
+test('backs off exponentially between reconnects', () => {
+  assert.deepEqual([0, 1, 2, 3].map(reconnectDelay), [1000, 2000, 4000, 8000]);
+  assert.equal(reconnectDelay(10), 30000);
+});
+
+test('reconnects by itself after the connection drops', async () => {
+  await withDevice(
+    (request, socket) => socket.send(JSON.stringify({ tp: 'res:profiles:list', rid: request.rid, profiles: [] })),
+    async (client, server) => {
+      await client.connect();
+      const reconnected = once(server, 'connection');
+      for (const socket of server.clients) socket.terminate();
+      await reconnected;
+      assert.deepEqual(await client.listProfiles(), []);
+    },
+  );
+});
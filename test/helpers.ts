@@ -0,0 +1,116 @@
+// Shared fixtures for the unit tests
+
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { GaggimateClient, GaggimateMessage, MessageListener } from '../src/client/gaggimateClient.js';
+import { IndexEntry, ShotListItem } from '../src/parsers/binaryIndex.js';
+import { ShotData, ShotSample } from '../src/parsers/binaryShot.js';
+
+/**
+ * Client stand-in that delivers pushed messages to subscribers without a socket
+ */
+export class FakeClient {
+  private listeners = new Set<MessageListener>();
+
+  subscribe(listener: MessageListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async connect(): Promise<void> {}
+
+  push(message: GaggimateMessage): void {
+    for (const listener of this.listeners) listener(message);
+  }
+
+  get subscribers(): number {
+    return this.listeners.size;
+  }
+
+  asClient(): GaggimateClient {
+    return this as unknown as GaggimateClient;
+  }
+}
+
+/**
+ * Run with a fresh temporary directory that is removed afterwards
+ */
+export async function withTempDir(run: (dir: string) => Promise<void>): Promise<void> {
+  const dir = await mkdtemp(path.join(tmpdir(), 'gaggimate-mcp-'));
+  try {
+    await run(dir);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Parsed shot around the given samples; samples without a time are spaced by the sample interval
+ */
+export function shotData(samples: ShotSample[], overrides: Partial<ShotData> = {}): ShotData {
+  const sampleInterval = overrides.sampleInterval ?? 250;
+  const timed = samples.map((sample, i) => ({ t: i * sampleInterval, ...sample }));
+  return {
+    id: '1',
+    version: 5,
+    fieldsMask: 0,
+    profileId: 'ai',
+    profileName: 'AI Profile',
+    timestamp: Date.UTC(2026, 9, 1) / 1000,
+    rating: 0,
+    duration: timed.length * sampleInterval,
+    weight: null,
+    phases: [],
+    incomplete: false,
+    ...overrides,
+    sampleInterval,
+    sampleCount: timed.length,
+    samples: timed,
+  };
+}
+
+/**
+ * Completed device index entry; shot n was brewed n seconds after the base time
+ */
+export function indexEntry(id: number, fields: Partial<IndexEntry> = {}): IndexEntry {
+  return {
+    id,
+    timestamp: 1760000000 + id,
+    duration: 30000,
+    volume: 36,
+    rating: 0,
+    flags: 1,
+    profileId: 'ai',
+    profileName: 'AI Profile',
+    completed: true,
+    deleted: false,
+    hasNotes: false,
+    incomplete: false,
+    ...fields,
+  };
+}
+
+/**
+ * Shot history listing item; shot n was brewed on October n
+ */
+export function shotListItem(id: number, fields: Partial<ShotListItem> = {}): ShotListItem {
+  return {
+    id: String(id),
+    profile: 'AI Profile',
+    profileId: 'ai',
+    timestamp: Date.UTC(2026, 9, id) / 1000,
+    duration: 30000,
+    samples: 120,
+    volume: 36,
+    rating: null,
+    incomplete: false,
+    hasNotes: false,
+    notes: null,
+    loaded: false,
+    data: null,
+    ...fields,
+  };
+}
@@ -0,0 +1,74 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { StatusMonitor } from '../src/status/statusMonitor.js';
+import { LiveShotRecorder } from '../src/status/liveShotRecorder.js';
+import { FakeClient } from './helpers.js';
+
+function setup() {
+  const client = new FakeClient();
+  const monitor = new StatusMonitor(client.asClient());
+  monitor.start();
+  const recorder = new LiveShotRecorder(monitor);
+  recorder.start();
+  return { client, recorder };
+}
+
+function running(label: string, weight: number) {
+  return {
+    tp: 'evt:status',
+    m: 1,
+    ct: 93,
+    tt: 93,
+    pr: 9,
+    fl: 2,
+    cw: weight,
+    puid: 'ai',
+    p: 'AI Profile',
+    process: { a: 1, l: label },
+  };
+}
+
+const idle = { tp: 'evt:status', m: 0, ct: 93, tt: 93 };
+
+test('records a shot from the status stream until it stops', async () => {
+  const { client, recorder } = setup();
+  const done = recorder.waitForShot({ timeoutMs: 1000 });
+
+  client.push(idle);
+  client.push(running('Preinfusion', 0));
+  client.push(running('Preinfusion', 0.5));
+  client.push(running('Extraction', 18));
+  assert.equal(recorder.getCurrentShot()?.shot.samples.length, 3);
+  client.push(idle);
+
+  const live = await done;
+  assert.ok(live);
+  assert.equal(live.shot.incomplete, false);
+  assert.equal(live.shot.profileId, 'ai');
+  assert.equal(live.shot.weight, 18);
+  assert.deepEqual(live.shot.phases.map(phase => [phase.sampleIndex, phase.phaseName]), [[0, 'Preinfusion'], [2, 'Extraction']]);
+  assert.deepEqual(live.shot.samples.map(sample => sample.phase), [0, 0, 1]);
+  assert.equal(recorder.getCurrentShot(), null);
+  assert.equal(recorder.getLastShot(), live);
+});
+
+test('reports progress while the shot runs', async () => {
+  const { client, recorder } = setup();
+  const progress: number[] = [];
+  const done = recorder.waitForShot({ timeoutMs: 1000, onProgress: live => progress.push(live.shot.samples.length) });
+  client.push(running('Extraction', 1));
+  client.push(running('Extraction', 2));
+  client.push(idle);
+  await done;
+  assert.deepEqual(progress, [1, 2]);
+});
+
+test('resolves with null on timeout or abort', async () => {
+  const { recorder } = setup();
+  assert.equal(await recorder.waitForShot({ timeoutMs: 10 }), null);
+
+  const controller = new AbortController();
+  const aborted = recorder.waitForShot({ timeoutMs: 1000, signal: controller.signal });
+  controller.abort();
+  assert.equal(await aborted, null);
+});
@@ -0,0 +1,41 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizeShotNotes } from '../src/transformers/notesTransformer.js';
+
+test('normalizes web UI notes into the typed model', () => {
+  const notes = normalizeShotNotes(
+    { id: '3', doseIn: '18', doseOut: '36.5', grindSetting: 12, beanType: 'Guji', roastDate: '2026-10-01', balanceTaste: 'Sour', rating: 4, tds: '9.5', notes: ' thin ', cup: 'blue' },
+    Date.UTC(2026, 9, 15, 8) / 1000,
+  );
+  assert.deepEqual(notes, {
+    dose_in_g: 18,
+    dose_out_g: 36.5,
+    brew_ratio: 2.03,
+    grind_setting: '12',
+    bean_id: null,
+    bean_name: 'Guji',
+    roast_date: '2026-10-01',
+    days_off_roast: 14,
+    taste_balance: 'sour',
+    tds_percent: 9.5,
+    extraction_yield_percent: 19.26,
+    rating: 4,
+    text: 'thin',
+    other_fields: { cup: 'blue' },
+  });
+});
+
+test('reads alternative field names and units', () => {
+  const notes = normalizeShotNotes({ dose: '18,5 g', ratio: '1:2.5', grind: 'fine', rating: 0 });
+  assert.equal(notes?.dose_in_g, 18.5);
+  assert.equal(notes?.brew_ratio, 2.5);
+  assert.equal(notes?.grind_setting, 'fine');
+  assert.equal(notes?.rating, null);
+  assert.equal(notes?.days_off_roast, null);
+});
+
+test('treats plain text as the note text and empty notes as none', () => {
+  assert.equal(normalizeShotNotes('too fast')?.text, 'too fast');
+  assert.equal(normalizeShotNotes(null), null);
+  assert.equal(normalizeShotNotes(''), null);
+});
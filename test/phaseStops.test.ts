@@ -0,0 +1,43 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { determinePhaseStop } from '../src/transformers/phaseStops.js';
+import { ShotSample } from '../src/parsers/binaryShot.js';
+
+const phase = {
+  name: 'Extraction',
+  duration: 30,
+  targets: [
+    { type: 'volumetric', operator: 'gte', value: 36 },
+    { type: 'pumped', operator: 'gte', value: 100 },
+  ],
+};
+
+// One sample per 250 ms with a constant pump flow and a linear weight gain
+function samples(seconds: number, weightPerSecond: number): ShotSample[] {
+  return Array.from({ length: seconds * 4 }, (_, i) => ({ t: i * 250, fl: 2, v: (i / 4) * weightPerSecond }));
+}
+
+test('a target met before the phase duration ended the phase', () => {
+  const stop = determinePhaseStop(samples(20, 1.9), phase, 20000, 250, true);
+  assert.equal(stop.ended_by, 'target');
+  assert.equal(stop.target?.type, 'volumetric');
+  assert.deepEqual(stop.targets.map(target => target.actual), [37.53, 40]);
+});
+
+test('a phase that ran its full duration ended by duration', () => {
+  const stop = determinePhaseStop(samples(30, 1), phase, 30000, 250, false);
+  assert.equal(stop.ended_by, 'duration');
+  assert.equal(stop.target, null);
+  assert.equal(stop.elapsed_seconds, 30);
+});
+
+test('a last phase cut short without a target was stopped by the user', () => {
+  assert.equal(determinePhaseStop(samples(12, 1), phase, 12000, 250, true).ended_by, 'user');
+  assert.equal(determinePhaseStop(samples(12, 1), phase, 12000, 250, false).ended_by, 'unknown');
+});
+
+test('without a profile phase the reason is unknown', () => {
+  const stop = determinePhaseStop(samples(12, 1), null, 12000, 250, true);
+  assert.equal(stop.ended_by, 'unknown');
+  assert.deepEqual(stop.targets, []);
+});
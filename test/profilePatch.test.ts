@@ -0,0 +1,58 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PatchOperationsSchema, applyProfilePatch } from '../src/profiles/profilePatch.js';
+
+const profile = {
+  id: 'ai-1',
+  label: 'AI Profile',
+  type: 'pro',
+  temperature: 93,
+  phases: [
+    { name: 'Preinfusion', phase: 'preinfusion', duration: 8, pump: { target: 'pressure', pressure: 3, flow: 0 }, targets: [] },
+    { name: 'Extraction', phase: 'brew', duration: 30, pump: { target: 'pressure', pressure: 9, flow: 0 }, targets: [] },
+  ],
+};
+
+test('replaces, increments and appends without touching the input', () => {
+  const patched = applyProfilePatch(profile, [
+    { op: 'replace', path: '/temperature', value: 94 },
+    { op: 'increment', path: '/phases/Extraction/pump/pressure', value: 0.1 },
+    { op: 'add', path: '/phases/-1/targets/-', value: { type: 'volumetric', operator: 'gte', value: 36 } },
+  ]);
+  assert.equal(patched.temperature, 94);
+  assert.equal(patched.phases[1].pump.pressure, 9.1);
+  assert.deepEqual(patched.phases[1].targets, [{ type: 'volumetric', operator: 'gte', value: 36 }]);
+  assert.equal(profile.temperature, 93);
+  assert.equal(profile.phases[1].targets.length, 0);
+});
+
+test('removes array elements by negative index', () => {
+  const patched = applyProfilePatch(profile, [{ op: 'remove', path: '/phases/-1' }]);
+  assert.deepEqual(patched.phases.map((phase: any) => phase.name), ['Preinfusion']);
+});
+
+test('rejects protected paths and missing elements', () => {
+  assert.throws(() => applyProfilePatch(profile, [{ op: 'replace', path: '/id', value: 'x' }]), /cannot be changed/);
+  assert.throws(() => applyProfilePatch(profile, [{ op: 'replace', path: '/phases/Bloom/duration', value: 5 }]), /no element named 'Bloom'/);
+  assert.throws(() => applyProfilePatch(profile, [{ op: 'replace', path: '/phases/5/duration', value: 5 }]), /out of range/);
+  assert.throws(() => applyProfilePatch(profile, [{ op: 'replace', path: '/grind', value: 5 }]), /use add to create it/);
+});
+
+test('never writes to Object.prototype', () => {
+  for (const path of ['/__proto__/polluted', '/constructor/prototype/polluted', '/phases/0/__proto__/polluted']) {
+    assert.throws(() => applyProfilePatch({ phases: [] }, [{ op: 'add', path, value: 1 }]), /not allowed in a path/);
+  }
+  assert.equal(({} as any).polluted, undefined);
+});
+
+test('only walks own properties', () => {
+  assert.throws(() => applyProfilePatch(profile, [{ op: 'replace', path: '/toString', value: 1 }]), /path does not exist/);
+  assert.throws(() => applyProfilePatch(profile, [{ op: 'remove', path: '/hasOwnProperty' }]), /path does not exist/);
+  const patched = applyProfilePatch(profile, [{ op: 'add', path: '/valueOf/x', value: 1 }]);
+  assert.deepEqual(patched.valueOf, { x: 1 });
+});
+
+test('schema requires a numeric value for increment', () => {
+  const result = PatchOperationsSchema.safeParse([{ op: 'increment', path: '/temperature', value: 'hot' }]);
+  assert.equal(result.success, false);
+});
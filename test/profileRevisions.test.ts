@@ -0,0 +1,56 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { hashProfile } from '../src/profiles/profileHash.js';
+import { ProfileRevisionStore } from '../src/store/profileRevisionStore.js';
+import { withTempDir } from './helpers.js';
+
+const profile = {
+  id: 'ai',
+  label: 'AI Profile',
+  type: 'pro',
+  temperature: 93,
+  phases: [{ name: 'Brew', duration: 30, pump: { target: 'pressure', pressure: 9 } }],
+};
+
+test('hashes the recipe regardless of key order and UI fields', () => {
+  const reordered = { phases: profile.phases, temperature: 93, type: 'pro', label: 'Renamed', id: 'other', favorite: true };
+  assert.equal(hashProfile(reordered), hashProfile(profile));
+  assert.notEqual(hashProfile({ ...profile, temperature: 94 }), hashProfile(profile));
+  assert.match(hashProfile(profile), /^[0-9a-f]{12}$/);
+});
+
+test('records a recipe once while it does not change', async () => {
+  await withTempDir(async dir => {
+    const store = new ProfileRevisionStore(path.join(dir, 'revisions.json'));
+    const first = await store.recordRevision(profile);
+    const again = await store.recordRevision({ ...profile, favorite: true });
+    const changed = await store.recordRevision({ ...profile, temperature: 94 });
+    assert.equal(again.saved_at, first.saved_at);
+    assert.notEqual(changed.hash, first.hash);
+    assert.equal((await store.listRevisions('ai')).length, 2);
+  });
+});
+
+test('finds the revision that was active when a shot was brewed', async () => {
+  await withTempDir(async dir => {
+    const file = path.join(dir, 'revisions.json');
+    const revision = (hash: string, savedAt: string, profileId: string = 'ai') =>
+      ({ hash, profile_id: profileId, label: 'AI Profile', saved_at: savedAt, profile });
+    await writeFile(file, JSON.stringify({
+      format: 1,
+      revisions: [
+        revision('a', '2026-10-01T08:00:00Z'),
+        revision('b', '2026-10-02T08:00:00Z'),
+        revision('x', '2026-10-02T09:00:00Z', 'other'),
+      ],
+    }));
+    const store = new ProfileRevisionStore(file);
+    const at = (iso: string) => Date.parse(iso) / 1000;
+
+    assert.equal(await store.findRevisionAt('ai', at('2026-09-30T08:00:00Z')), null);
+    assert.equal((await store.findRevisionAt('ai', at('2026-10-01T20:00:00Z')))?.hash, 'a');
+    assert.equal((await store.findRevisionAt('ai', at('2026-10-03T08:00:00Z')))?.hash, 'b');
+  });
+});
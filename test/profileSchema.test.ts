@@ -0,0 +1,66 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ProProfileSchema, validateDeviceProfile } from '../src/schemas/profile.js';
+import { formatZodIssues } from '../src/schemas/issues.js';
+
+const profile = {
+  id: 'ai',
+  label: 'AI Profile',
+  type: 'pro',
+  temperature: 93,
+  phases: [
+    { name: 'Bloom', phase: 'preinfusion', duration: 10, pump: { target: 'pressure', pressure: 2 } },
+    { name: 'Brew', phase: 'brew', duration: 30, targets: [{ type: 'volumetric', value: 36 }] },
+  ],
+};
+
+function issues(input: unknown) {
+  const result = ProProfileSchema.safeParse(input);
+  return result.success ? [] : formatZodIssues(result.error);
+}
+
+test('accepts a pro profile and fills in defaults', () => {
+  const parsed = ProProfileSchema.parse(profile);
+  assert.equal(parsed.favorite, false);
+  assert.equal(parsed.phases[0].valve, 1);
+  assert.deepEqual(parsed.phases[0].pump, { target: 'pressure', pressure: 2, flow: 0 });
+  assert.deepEqual(parsed.phases[1].targets, [{ type: 'volumetric', operator: 'gte', value: 36 }]);
+});
+
+test('keeps device fields it does not know', () => {
+  assert.equal((ProProfileSchema.parse({ ...profile, firmware: 3 }) as any).firmware, 3);
+});
+
+test('reports each problem with its field path', () => {
+  const found = issues({
+    ...profile,
+    temperature: 120,
+    phases: [
+      { name: 'Brew', phase: 'brew', duration: 30, targets: [{ type: 'pressure', value: 15 }] },
+      { name: '', phase: 'soak', duration: 10 },
+    ],
+  });
+  assert.deepEqual(found.map(issue => issue.path), [
+    'temperature',
+    'phases.0.targets.0.value',
+    'phases.1.name',
+    'phases.1.phase',
+  ]);
+});
+
+test('rejects a pump with no setpoint and takes pump: 0 as a soak', () => {
+  const found = issues({ ...profile, phases: [{ name: 'Brew', phase: 'brew', duration: 30, pump: { target: 'flow' } }] });
+  assert.deepEqual(found.map(issue => issue.path), ['phases.0.pump.flow']);
+  assert.match(found[0].message, /use pump: 0 for a soak/);
+  assert.deepEqual(issues({ ...profile, phases: [{ name: 'Soak', phase: 'preinfusion', duration: 10, pump: 0 }] }), []);
+});
+
+test('limits the total duration', () => {
+  const phases = Array.from({ length: 2 }, (_, i) => ({ name: `P${i}`, phase: 'brew', duration: 100 }));
+  assert.match(issues({ ...profile, phases })[0].message, /Total duration 200s exceeds 180s/);
+});
+
+test('only checks pro profiles read from the device', () => {
+  assert.deepEqual(validateDeviceProfile({ type: 'standard', label: 'Simple' }), []);
+  assert.equal(validateDeviceProfile({ ...profile, phases: [] })[0].path, 'phases');
+});
@@ -0,0 +1,50 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { overlayShot, simulateProfile } from '../src/profiles/profileSimulator.js';
+import { shotData } from './helpers.js';
+
+const profile = {
+  temperature: 93,
+  phases: [
+    { name: 'Bloom', phase: 'preinfusion', duration: 2, pump: { target: 'pressure', pressure: 3, flow: 0 } },
+    {
+      name: 'Brew',
+      phase: 'brew',
+      duration: 4,
+      transition: { type: 'linear', duration: 2 },
+      pump: { target: 'pressure', pressure: 9, flow: 0 },
+      targets: [{ type: 'volumetric', operator: 'gte', value: 36 }],
+    },
+  ],
+};
+
+test('ramps each phase from where the previous one ended', () => {
+  const preview = simulateProfile(profile, 1000);
+  assert.equal(preview.total_duration_seconds, 6);
+  assert.deepEqual(preview.timeline.map(point => point.target_pressure_bar), [3, 3, 3, 6, 9, 9]);
+  assert.deepEqual(preview.timeline.map(point => point.time_seconds), [0, 1, 2, 3, 4, 5]);
+  assert.equal(preview.phases[1].target_start, 3);
+  assert.equal(preview.phases[1].start_time_seconds, 2);
+  assert.deepEqual(preview.phases[1].stop_conditions, ['volumetric >= 36 g']);
+});
+
+test('reports the limit of the other variable', () => {
+  const preview = simulateProfile({
+    temperature: 92,
+    phases: [{ name: 'Flow', duration: 1, pump: { target: 'flow', flow: 2, pressure: 6 } }],
+  }, 500);
+  assert.deepEqual(preview.timeline.map(point => [point.target_flow_ml_s, point.target_pressure_bar]), [[2, 6], [2, 6]]);
+  assert.equal(preview.phases[0].limit, 6);
+});
+
+test('overlays a past shot and scores the controlled variable only', () => {
+  const preview = simulateProfile(profile, 1000);
+  const shot = shotData(
+    [3, 3, 3, 6, 9, 8].map(cp => ({ cp, pf: 1, ct: 93 })),
+    { sampleInterval: 1000 },
+  );
+  const overlay = overlayShot(preview, shot).overlay;
+  assert.equal(overlay?.pressure_rmse_bar, 0.41);
+  assert.equal(overlay?.flow_rmse_ml_s, null);
+  assert.equal(overlay?.temperature_rmse_c, 0);
+});
@@ -0,0 +1,40 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { analyzePuck } from '../src/transformers/puckAnalysis.js';
+import { ShotSample } from '../src/parsers/binaryShot.js';
+import { shotData } from './helpers.js';
+
+// One sample per 500 ms
+function samples(count: number, at: (seconds: number) => ShotSample): ShotSample[] {
+  return Array.from({ length: count }, (_, i) => ({ t: i * 500, ...at(i / 2) }));
+}
+
+test('computes resistance from pressure over puck flow', () => {
+  const puck = analyzePuck(shotData(samples(20, () => ({ cp: 9, pf: 2 })), { sampleInterval: 500 }));
+  assert.equal(puck.resistance.source, 'computed');
+  assert.equal(puck.resistance.peak, 4.5);
+  assert.equal(puck.resistance.decline_from_peak_percent, 0);
+  assert.deepEqual(puck.resistance.timeline.map(point => point.time_seconds), [0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+  assert.deepEqual(puck.events, []);
+  assert.deepEqual(puck.flags, []);
+});
+
+test('flags a late resistance drop at steady pressure as a fractured puck', () => {
+  const shot = shotData(samples(50, seconds => ({ cp: 9, pf: seconds < 15 ? 2 : 3.2 })), { sampleInterval: 500 });
+  const puck = analyzePuck(shot);
+  assert.deepEqual(puck.events.map(event => [event.type, event.time_seconds, event.severity]), [['resistance_drop', 15, 'minor']]);
+  assert.deepEqual(puck.flags.map(flag => flag.issue), ['late_channeling']);
+});
+
+test('flags an early flow spike as a puck prep problem', () => {
+  const shot = shotData(samples(20, seconds => ({ cp: 9, pr: 4, pf: seconds < 3 ? 1 : 2 })), { sampleInterval: 500 });
+  const puck = analyzePuck(shot);
+  assert.equal(puck.resistance.source, 'logged');
+  assert.deepEqual(puck.events.map(event => [event.type, event.severity]), [['flow_spike', 'major']]);
+  assert.deepEqual(puck.flags.map(flag => flag.issue), ['early_channeling']);
+});
+
+test('flags a puck that never built resistance', () => {
+  const puck = analyzePuck(shotData(samples(10, () => ({ cp: 2, pf: 2 })), { sampleInterval: 500 }));
+  assert.deepEqual(puck.flags.map(flag => flag.issue), ['low_resistance']);
+});
@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_SAFETY_POLICY, evaluateSafety, loadSafetyPolicy } from '../src/profiles/safetyPolicy.js';
+
+const profile = {
+  temperature: 93,
+  phases: [
+    { name: 'Bloom', duration: 10, pump: { target: 'pressure', pressure: 3, flow: 0 } },
+    { name: 'Brew', duration: 30, pump: { target: 'pressure', pressure: 9, flow: 0 } },
+  ],
+};
+
+test('allows a profile inside the envelope', () => {
+  const verdict = evaluateSafety(profile, null, DEFAULT_SAFETY_POLICY);
+  assert.equal(verdict.allowed, true);
+  assert.equal(verdict.compared_to_previous, false);
+});
+
+test('reports absolute limits with their paths', () => {
+  const unsafe = {
+    temperature: 99,
+    phases: [
+      { name: 'Brew', duration: 100, temperature: 80, pump: { target: 'flow', pressure: 11, flow: 9 } },
+    ],
+  };
+  const verdict = evaluateSafety(unsafe, null, DEFAULT_SAFETY_POLICY);
+  assert.equal(verdict.allowed, false);
+  assert.deepEqual(verdict.violations.map(v => [v.rule, v.path]), [
+    ['maxTemperature', 'temperature'],
+    ['minTemperature', 'phases.0.temperature'],
+    ['maxPressure', 'phases.0.pump.pressure'],
+    ['maxFlow', 'phases.0.pump.flow'],
+    ['maxTotalDuration', 'phases'],
+  ]);
+});
+
+test('limits the change from the previous profile', () => {
+  const next = { ...profile, temperature: 96.5, phases: [{ ...profile.phases[0] }, { ...profile.phases[1], duration: 55 }] };
+  const verdict = evaluateSafety(next, profile, DEFAULT_SAFETY_POLICY);
+  assert.deepEqual(verdict.violations.map(v => [v.rule, v.value]), [
+    ['maxTemperatureDelta', 3.5],
+    ['maxDurationDelta', 25],
+  ]);
+  assert.equal(evaluateSafety({ ...profile, temperature: 96 }, profile, DEFAULT_SAFETY_POLICY).allowed, true);
+});
+
+test('reads the policy from the environment', () => {
+  const policy = loadSafetyPolicy({ GAGGIMATE_SAFETY_MAX_PRESSURE: '9', GAGGIMATE_SAFETY_MAX_FLOW: '' });
+  assert.equal(policy.maxPressure, 9);
+  assert.equal(policy.maxFlow, DEFAULT_SAFETY_POLICY.maxFlow);
+  assert.throws(() => loadSafetyPolicy({ GAGGIMATE_SAFETY_MAX_FLOW: 'lots' }), /GAGGIMATE_SAFETY_MAX_FLOW/);
+});
@@ -0,0 +1,69 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readdir, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { ShotArchive } from '../src/store/shotArchive.js';
+import { IndexData, IndexEntry } from '../src/parsers/binaryIndex.js';
+import { indexEntry as entry, withTempDir } from './helpers.js';
+
+function index(entries: IndexEntry[]): IndexData {
+  return { header: { magic: 0x58444953, version: 1, entrySize: 128, entryCount: entries.length, nextId: entries.length + 1 }, entries };
+}
+
+function withArchive(run: (archive: ShotArchive, dir: string) => Promise<void>): Promise<void> {
+  return withTempDir(dir => run(new ShotArchive(dir), dir));
+}
+
+test('keeps entries the device has rotated out', () => withArchive(async archive => {
+  await archive.mergeIndex(index([entry(1), entry(2)]));
+  await archive.mergeIndex(index([entry(2), entry(3)]));
+  const merged = await archive.readIndex();
+  assert.deepEqual(merged?.entries.map(e => e.id), [1, 2, 3]);
+}));
+
+test('marks synced shots with a changed entry for a notes refresh', () => withArchive(async archive => {
+  await archive.mergeIndex(index([entry(1), entry(2, { hasNotes: true })]));
+  await archive.markSynced(3);
+  await archive.mergeIndex(index([entry(1, { hasNotes: true, rating: 4 }), entry(2, { hasNotes: true }), entry(3)]));
+  assert.deepEqual(await archive.staleNoteIds(), [1]);
+
+  await archive.markNotesSynced([1]);
+  assert.deepEqual(await archive.staleNoteIds(), []);
+}));
+
+test('stores shots and notes under the device file names', () => withArchive(async archive => {
+  await archive.writeShot('42', Buffer.from([1, 2, 3]));
+  await archive.writeNotes('42', { rating: 4 });
+  assert.deepEqual(await archive.readShot('42'), Buffer.from([1, 2, 3]));
+  assert.deepEqual(await archive.readNotes('42'), { rating: 4 });
+  assert.equal(await archive.hasShot('7'), false);
+
+  await archive.deleteNotes('42');
+  assert.equal(await archive.readNotes('42'), null);
+}));
+
+test('rejects shot ids that are not numeric', () => withArchive(async archive => {
+  await assert.rejects(archive.readShot('../../etc/passwd'), /Invalid shot id/);
+  await assert.rejects(archive.readNotes('1/../2'), /Invalid shot id/);
+  await assert.rejects(archive.writeShot('..', Buffer.alloc(0)), /Invalid shot id/);
+  assert.equal(await archive.hasShot('../index'), false);
+}));
+
+test('leaves the index file alone when the device index has not changed', () => withArchive(async (archive, dir) => {
+  await archive.mergeIndex(index([entry(1), entry(2)]));
+  const written = await stat(path.join(dir, 'index.json'));
+  await archive.mergeIndex(index([entry(1), entry(2)]));
+  assert.equal((await stat(path.join(dir, 'index.json'))).ino, written.ino);
+}));
+
+test('moves the archive aside when the device shot ids restart', () => withArchive(async (archive, dir) => {
+  await archive.mergeIndex(index([entry(1), entry(2), entry(3)]));
+  await archive.writeShot('1', Buffer.from('old shot'));
+  await archive.markSynced(4);
+
+  assert.equal(await archive.mergeIndex(index([entry(1, { timestamp: 1770000000 })])), true);
+  assert.equal(await archive.readShot('1'), null);
+  assert.deepEqual((await archive.readIndex())?.entries.map(e => e.timestamp), [1770000000]);
+  assert.equal((await archive.getStatus()).synced_next_id, 0);
+  assert.equal((await readdir(path.join(dir, 'previous'))).length, 1);
+}));
@@ -0,0 +1,63 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ComparedShotInput, compareShots } from '../src/transformers/shotComparison.js';
+import { transformShotForAI } from '../src/transformers/shotTransformer.js';
+import { shotData } from './helpers.js';
+
+// Preinfusion for 2 s, then extraction at the given pressure; one sample per second
+function input(id: string, pressure: number, seconds: number, temperature: number): ComparedShotInput {
+  const samples = Array.from({ length: seconds }, (_, i) => ({
+    ct: 93,
+    cp: i < 2 ? 3 : pressure,
+    pf: i < 2 ? 0.5 : 2,
+    v: Math.max(0, (i - 2) * 2),
+  }));
+  const shot = shotData(samples, {
+    id,
+    sampleInterval: 1000,
+    duration: seconds * 1000,
+    phases: [
+      { sampleIndex: 0, phaseNumber: 0, phaseName: 'Preinfusion' },
+      { sampleIndex: 2, phaseNumber: 1, phaseName: 'Extraction' },
+    ],
+  });
+  return { shot, analysis: transformShotForAI(shot), profile: { temperature, phases: [{ name: 'Extraction', duration: 30 }] } };
+}
+
+const baseline = input('1', 9, 10, 93);
+const other = input('2', 8, 12, 94);
+
+test('reports summary and per-phase deltas against the first shot', () => {
+  const comparison = compareShots([baseline, other]);
+  assert.equal(comparison.baseline_shot_id, '1');
+
+  const duration = comparison.summary.find(row => row.metric === 'duration_seconds');
+  assert.deepEqual(duration, { metric: 'duration_seconds', values: [10, 12], deltas: [null, 2] });
+
+  const extraction = comparison.phases.find(row => row.phase === 'Extraction');
+  assert.equal(extraction?.deltas[1]?.avg_pressure_bar, -1);
+  assert.equal(extraction?.deltas[1]?.weight_gained_g, 4);
+  assert.equal(extraction?.deltas[0], null);
+});
+
+test('aligns by phase position, time or weight', () => {
+  const byPhase = compareShots([baseline, other], 'phase').aligned_curve;
+  assert.deepEqual(byPhase.map(point => `${point.phase}@${point.position}`).slice(0, 6), [
+    'Preinfusion@0', 'Preinfusion@25', 'Preinfusion@50', 'Preinfusion@75', 'Preinfusion@100', 'Extraction@0',
+  ]);
+
+  const byTime = compareShots([baseline, other], 'time').aligned_curve;
+  assert.equal(byTime.length, 13);
+  assert.equal(byTime[11].shots[0], null);
+  assert.equal(byTime[11].shots[1]?.pressure_bar, 8);
+
+  const byWeight = compareShots([baseline, other], 'weight').aligned_curve;
+  assert.deepEqual(byWeight.find(point => point.position === 10)?.shots.map(values => values?.time_seconds), [7, 7]);
+});
+
+test('lists the profile changes between the shots', () => {
+  const [difference] = compareShots([baseline, other]).profile_differences;
+  assert.equal(difference.shot_id, '2');
+  assert.equal(difference.same_profile, true);
+  assert.deepEqual(difference.changes?.map(change => change.path), ['temperature']);
+});
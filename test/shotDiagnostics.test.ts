@@ -0,0 +1,74 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { transformShotForAI } from '../src/transformers/shotTransformer.js';
+import { ShotSample } from '../src/parsers/binaryShot.js';
+import { shotData } from './helpers.js';
+
+const profile = {
+  temperature: 93,
+  phases: [
+    { name: 'Preinfusion', phase: 'preinfusion', duration: 5, pump: { target: 'pressure', pressure: 3, flow: 0 } },
+    { name: 'Extraction', phase: 'brew', duration: 25, pump: { target: 'pressure', pressure: 9, flow: 0 }, targets: [{ type: 'volumetric', value: 36 }] },
+  ],
+};
+
+// 30 s at 250 ms: 5 s preinfusion at 3 bar, then extraction; the scale starts counting at 8 s
+function brew(extraction: (seconds: number) => ShotSample, weightPerSecond: number = 2) {
+  const samples = Array.from({ length: 120 }, (_, i) => {
+    const seconds = i / 4;
+    const base = { tt: 93, ct: 93, v: Math.max(0, (seconds - 8) * weightPerSecond) };
+    return seconds < 5
+      ? { ...base, tp: 3, cp: 3, pf: 0.5 }
+      : { ...base, tp: 9, cp: 9, pf: 2, ...extraction(seconds) };
+  });
+  const last = samples[samples.length - 1];
+  return shotData(samples, {
+    duration: 30000,
+    weight: Math.round(last.v * 10) / 10,
+    phases: [
+      { sampleIndex: 0, phaseNumber: 0, phaseName: 'Preinfusion' },
+      { sampleIndex: 20, phaseNumber: 1, phaseName: 'Extraction' },
+    ],
+  });
+}
+
+function codes(shot: ReturnType<typeof brew>) {
+  return transformShotForAI(shot, false, { profile }).diagnostics.map(finding => finding.code);
+}
+
+test('finds nothing wrong with a shot that follows its profile', () => {
+  assert.deepEqual(codes(brew(() => ({}))), []);
+});
+
+test('reports a phase that never reached its pressure target', () => {
+  const findings = transformShotForAI(brew(() => ({ cp: 5, pf: 3 })), false, { profile }).diagnostics;
+  const finding = findings.find(f => f.code === 'pressure_not_reached');
+  assert.equal(finding?.phase, 'Extraction');
+  assert.deepEqual([finding?.evidence.target_pressure_bar, finding?.evidence.max_pressure_bar], [9, 5]);
+});
+
+test('reports a shot that ran out of time before its weight target', () => {
+  assert.ok(codes(brew(() => ({}), 1)).includes('stopped_by_duration'));
+});
+
+test('reports an early first drip from the scale', () => {
+  const shot = brew(() => ({}));
+  for (const sample of shot.samples) sample.v = (sample.t || 0) / 1000;
+  assert.ok(codes(shot).includes('fast_first_drip'));
+});
+
+test('does not hold a flow phase to its pressure limit', () => {
+  const flowProfile = {
+    ...profile,
+    phases: [
+      profile.phases[0],
+      { ...profile.phases[1], pump: { target: 'flow', pressure: 9, flow: 2 } },
+    ],
+  };
+  const shot = brew(() => ({ tf: 2, cp: 5 }));
+  const findings = transformShotForAI(shot, false, { profile: flowProfile }).diagnostics;
+  assert.equal(findings.find(f => f.code === 'pressure_not_reached'), undefined);
+  // Without the profile, a sample with both tp and tf set is not taken as a pressure target
+  const inferred = transformShotForAI(shot, false).diagnostics;
+  assert.equal(inferred.find(f => f.code === 'pressure_not_reached'), undefined);
+});
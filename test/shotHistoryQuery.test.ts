@@ -0,0 +1,53 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ShotHistoryQuerySchema, ShotTrendsQuerySchema, queryShotList } from '../src/schemas/shotHistoryQuery.js';
+import { shotListItem as shot } from './helpers.js';
+
+const shots = [
+  shot(1, { duration: 25000, volume: 30, rating: 3 }),
+  shot(2, { profile: 'Turbo', profileId: 'turbo', duration: 15000, volume: 45, hasNotes: true }),
+  shot(3, { duration: 32000, volume: 38, rating: 5, hasNotes: true }),
+  shot(4, { duration: 8000, volume: null, incomplete: true }),
+];
+
+function query(input: unknown) {
+  return queryShotList(shots, ShotHistoryQuerySchema.parse(input));
+}
+
+test('defaults to newest first', () => {
+  const page = query({});
+  assert.deepEqual(page.shots.map(s => s.id), ['4', '3', '2', '1']);
+  assert.equal(page.total_matching, 4);
+});
+
+test('filters on profile, duration in seconds, volume and completion', () => {
+  assert.deepEqual(query({ profileName: 'turbo' }).shots.map(s => s.id), ['2']);
+  assert.deepEqual(query({ profileId: 'ai', completed: true }).shots.map(s => s.id), ['3', '1']);
+  assert.deepEqual(query({ minDuration: 20, maxDuration: 30 }).shots.map(s => s.id), ['1']);
+  assert.deepEqual(query({ minVolume: 35 }).shots.map(s => s.id), ['3', '2']);
+  assert.deepEqual(query({ hasNotes: true }).shots.map(s => s.id), ['3', '2']);
+});
+
+test('unrated shots never match a rating range and sort last', () => {
+  assert.deepEqual(query({ minRating: 0 }).shots.map(s => s.id), ['3', '1']);
+  assert.deepEqual(query({ sortBy: 'rating' }).shots.map(s => s.id), ['3', '1', '4', '2']);
+  assert.deepEqual(query({ sortBy: 'rating', order: 'asc' }).shots.map(s => s.id).slice(0, 2), ['1', '3']);
+});
+
+test('a date-only upper bound covers the whole day', () => {
+  assert.deepEqual(query({ from: '2026-10-02', to: '2026-10-03' }).shots.map(s => s.id), ['3', '2']);
+  assert.deepEqual(query({ to: Date.UTC(2026, 9, 2) / 1000 }).shots.map(s => s.id), ['2', '1']);
+  assert.equal(ShotHistoryQuerySchema.safeParse({ from: 'last tuesday' }).success, false);
+});
+
+test('pages after filtering and reports the full match count', () => {
+  const page = query({ limit: 2, offset: 1, sortBy: 'id', order: 'asc' });
+  assert.deepEqual(page.shots.map(s => s.id), ['2', '3']);
+  assert.equal(page.total_matching, 4);
+});
+
+test('trend queries need at least two shots and cap the limit', () => {
+  assert.equal(ShotTrendsQuerySchema.parse({}).limit, 30);
+  assert.equal(ShotTrendsQuerySchema.safeParse({ limit: 1 }).success, false);
+  assert.equal(ShotTrendsQuerySchema.safeParse({ limit: 1000 }).success, false);
+});
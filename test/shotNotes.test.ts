@@ -0,0 +1,31 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ShotNotesUpdateSchema, buildDeviceShotNotes } from '../src/schemas/shotNotes.js';
+
+const existing = { id: '12', rating: 3, beanType: 'Guji', doseIn: '18', doseOut: '36', ratio: '2', notes: 'sour' };
+
+test('merges into the existing notes by default', () => {
+  const update = ShotNotesUpdateSchema.parse({ shotId: '12', rating: 4, doseOut: 40 });
+  assert.deepEqual(buildDeviceShotNotes(update, existing), {
+    ...existing,
+    rating: 4,
+    doseOut: 40,
+    ratio: 2.22,
+  });
+});
+
+test('replaces the notes when merge is off', () => {
+  const update = ShotNotesUpdateSchema.parse({ shotId: '12', rating: 5, merge: false });
+  assert.deepEqual(buildDeviceShotNotes(update, existing), { id: '12', rating: 5 });
+});
+
+test('writes the shot id even without existing notes', () => {
+  const update = ShotNotesUpdateSchema.parse({ shotId: '7', grindSetting: 12 });
+  assert.deepEqual(buildDeviceShotNotes(update, null), { id: '7', grindSetting: '12' });
+});
+
+test('rejects out-of-range values', () => {
+  assert.equal(ShotNotesUpdateSchema.safeParse({ shotId: '1', rating: 6 }).success, false);
+  assert.equal(ShotNotesUpdateSchema.safeParse({ shotId: '1', balanceTaste: 'sweet' }).success, false);
+  assert.equal(ShotNotesUpdateSchema.safeParse({ rating: 3 }).success, false);
+});
@@ -0,0 +1,68 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { calculateShotTrends, TrendShotInput } from '../src/transformers/shotTrends.js';
+import { linearRegression, tTestPValue } from '../src/utils/statistics.js';
+
+// Only the fields the trend calculation reads
+function input(day: number, yieldG: number, temperature: number, notes: any = null): TrendShotInput {
+  const analysis: any = {
+    metadata: {
+      shot_id: String(day),
+      timestamp: new Date(Date.UTC(2026, 9, day)).toISOString(),
+      profile_name: 'AI Profile',
+      duration_seconds: 30,
+    },
+    summary: {
+      reconciliation: { yield_g: yieldG },
+      pressure: { max_bar: 9 },
+      flow: { time_to_first_drip_seconds: 6 },
+      tracking: { temperature: null },
+    },
+    notes,
+  };
+  return { analysis, profile: { temperature, phases: [] } };
+}
+
+test('t-test p-values match the t table', () => {
+  assert.ok(Math.abs(tTestPValue(2.228, 10) - 0.05) < 0.001);
+  assert.ok(Math.abs(tTestPValue(12.706, 1) - 0.05) < 0.001);
+  assert.equal(tTestPValue(0, 5), 1);
+});
+
+test('a perfect fit has a zero p-value and two points none to judge by', () => {
+  assert.equal(linearRegression([[1, 2], [2, 4], [3, 6]])?.p_value, 0);
+  assert.equal(linearRegression([[1, 2], [2, 4]])?.p_value, 1);
+  assert.equal(linearRegression([[1, 2], [1, 4], [1, 6]]), null);
+});
+
+test('keeps a significant regression with its p-value and threshold', () => {
+  const inputs = Array.from({ length: 10 }, (_, i) => input(i + 1, 30 + 2 * i + (i % 2 ? 0.3 : -0.3), 90 + i));
+  const trends = calculateShotTrends(inputs, 5);
+  const fit = trends.regressions.find(r => r.metric === 'yield_g' && r.parameter === 'temperature_c');
+  assert.ok(fit);
+  assert.equal(fit.n, 10);
+  assert.ok(fit.p_value < trends.significance_threshold!);
+  assert.equal(trends.regressions_tested, 1);
+});
+
+test('needs at least 8 shots to regress', () => {
+  const inputs = Array.from({ length: 7 }, (_, i) => input(i + 1, 30 + 2 * i, 90 + i));
+  const trends = calculateShotTrends(inputs, 5);
+  assert.deepEqual(trends.regressions, []);
+  assert.equal(trends.regressions_tested, 0);
+  assert.equal(trends.significance_threshold, null);
+});
+
+test('skips parameters that only vary by a trivial amount', () => {
+  const inputs = Array.from({ length: 10 }, (_, i) => input(i + 1, 30 + 2 * i, 93 + (i % 2) * 0.1));
+  const trends = calculateShotTrends(inputs, 5);
+  assert.equal(trends.regressions_tested, 0);
+});
+
+test('drops noisy fits that are not significant', () => {
+  const yields = [36, 31, 38, 30, 35, 37, 29, 34, 36, 31];
+  const inputs = yields.map((y, i) => input(i + 1, y, 90 + i));
+  const trends = calculateShotTrends(inputs, 5);
+  assert.equal(trends.regressions_tested, 1);
+  assert.deepEqual(trends.regressions, []);
+});
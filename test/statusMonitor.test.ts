@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { StatusMonitor, MachineStatus, normalizeStatus } from '../src/status/statusMonitor.js';
+import { FakeClient } from './helpers.js';
+
+const brewing = {
+  tp: 'evt:status',
+  m: 1,
+  ct: 92.6,
+  tt: 93,
+  pr: 8.8,
+  fl: 2.1,
+  cw: 12.4,
+  puid: 'ai',
+  p: 'AI Profile',
+  process: { a: 1, s: 'brew', l: 'Extraction', e: 12500, tt: 'volumetric', pp: 0.3, pt: 36 },
+};
+
+test('normalizes a brewing status', () => {
+  const status = normalizeStatus(brewing);
+  assert.equal(status.mode, 'brew');
+  assert.equal(status.at_temperature, true);
+  assert.equal(status.shot_running, true);
+  assert.deepEqual(status.selected_profile, { id: 'ai', name: 'AI Profile' });
+  assert.equal(status.process?.elapsed_seconds, 12.5);
+  assert.equal(status.pressure_bar, 8.8);
+});
+
+test('leaves unknown fields null', () => {
+  const status = normalizeStatus({ tp: 'evt:status', m: 9, ct: 'hot' });
+  assert.equal(status.mode, 'unknown(9)');
+  assert.equal(status.current_temperature_c, null);
+  assert.equal(status.at_temperature, null);
+  assert.equal(status.shot_running, false);
+  assert.equal(status.process, null);
+});
+
+test('keeps the latest status and notifies listeners', () => {
+  const client = new FakeClient();
+  const monitor = new StatusMonitor(client.asClient());
+  assert.equal(monitor.getStatus(), null);
+
+  monitor.start();
+  const seen: MachineStatus[] = [];
+  monitor.onStatus(status => seen.push(status));
+  client.push({ tp: 'res:profiles:list', rid: 'x' });
+  client.push(brewing);
+  client.push({ ...brewing, m: 0, process: undefined });
+
+  assert.deepEqual(seen.map(status => status.mode), ['brew', 'standby']);
+  assert.equal(monitor.getStatus()?.mode, 'standby');
+
+  monitor.stop();
+  assert.equal(client.subscribers, 0);
+});
@@ -0,0 +1,50 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { calculateTracking } from '../src/transformers/trackingAnalysis.js';
+import { ShotSample } from '../src/parsers/binaryShot.js';
+
+// 1 s of pressure-targeted preinfusion at 3 bar, then 2 s flow-targeted at 2 ml/s with a 9 bar limit
+const samples: ShotSample[] = [
+  { t: 0, tp: 3, cp: 1, tf: 0, pf: 0, tt: 93, ct: 92.5 },
+  { t: 500, tp: 3, cp: 3, tf: 0, pf: 0.5, tt: 93, ct: 93 },
+  { t: 1000, tp: 9, cp: 4, tf: 2, pf: 1.8, tt: 93, ct: 93.2 },
+  { t: 1500, tp: 9, cp: 5, tf: 2, pf: 2, tt: 93, ct: 93.1 },
+  { t: 2000, tp: 9, cp: 5.5, tf: 2, pf: 2.1, tt: 93, ct: 92.9 },
+];
+const pumpTargets = ['pressure', 'pressure', 'flow', 'flow', 'flow'] as const;
+
+test('scores pressure only where it is the pump target', () => {
+  const tracking = calculateTracking(samples, [...pumpTargets]);
+  assert.equal(tracking.pressure?.sample_count, 2);
+  assert.equal(tracking.pressure?.target_average, 3);
+  assert.equal(tracking.pressure?.time_to_target_seconds, 0.5);
+  assert.equal(tracking.flow?.sample_count, 3);
+  assert.equal(tracking.flow?.rmse, 0.13);
+  assert.equal(tracking.temperature?.sample_count, 5);
+});
+
+test('a pressure limit in a flow phase is not a pressure miss', () => {
+  const tracking = calculateTracking(samples.slice(2), pumpTargets.slice(2));
+  assert.equal(tracking.pressure, null);
+  assert.equal(tracking.flow?.time_within_tolerance_percent, 100);
+});
+
+test('without a profile, samples with both targets set are not scored for either', () => {
+  const tracking = calculateTracking(samples);
+  assert.equal(tracking.pressure?.sample_count, 2);
+  assert.equal(tracking.flow, null);
+});
+
+test('reports overshoot once the target was reached', () => {
+  const ramp: ShotSample[] = [
+    { t: 0, tp: 9, cp: 6 },
+    { t: 250, tp: 9, cp: 9 },
+    { t: 500, tp: 9, cp: 10.2 },
+    { t: 750, tp: 9, cp: 9.1 },
+  ];
+  const tracking = calculateTracking(ramp, ['pressure', 'pressure', 'pressure', 'pressure']);
+  assert.equal(tracking.pressure?.time_to_target_seconds, 0.25);
+  assert.equal(tracking.pressure?.overshoot, 1.2);
+  assert.equal(tracking.pressure?.max_deviation, -3);
+  assert.equal(tracking.pressure?.max_deviation_time_seconds, 0);
+});
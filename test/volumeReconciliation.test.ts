@@ -0,0 +1,35 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { transformShotForAI } from '../src/transformers/shotTransformer.js';
+import { ShotSample } from '../src/parsers/binaryShot.js';
+import { shotData } from './helpers.js';
+
+// 10 s at 250 ms: 3 ml/s pumped, 2.5 ml/s through the puck
+function samples(extra: (i: number) => ShotSample = () => ({})): ShotSample[] {
+  return Array.from({ length: 40 }, (_, i) => ({ cp: 9, fl: 3, pf: 2.5, ...extra(i) }));
+}
+
+test('reconciles pumped water, puck flow, scale weight and the estimate', () => {
+  const shot = shotData(samples(i => ({ v: i * 0.55, vf: 2.2, ev: i * 0.58 })), { weight: 21.46 });
+  const { reconciliation, flow } = transformShotForAI(shot).summary;
+  assert.deepEqual(reconciliation, {
+    pump_volume_ml: 30,
+    puck_volume_ml: 25,
+    scale_weight_g: 21.5,
+    estimated_weight_g: 22.6,
+    puck_retention_ml: 5,
+    scale_vs_estimate_g: -1.1,
+    yield_g: 21.5,
+    yield_source: 'scale',
+  });
+  assert.equal(flow.pump_volume_ml, 30);
+  assert.equal(flow.peak_scale_flow_g_s, 2.2);
+});
+
+test('falls back to the estimated weight, then to puck flow', () => {
+  const estimated = transformShotForAI(shotData(samples(i => ({ ev: i * 0.5 })))).summary.reconciliation;
+  assert.deepEqual([estimated.yield_g, estimated.yield_source, estimated.scale_weight_g], [19.5, 'estimated', null]);
+
+  const puckOnly = transformShotForAI(shotData(samples())).summary.reconciliation;
+  assert.deepEqual([puckOnly.yield_g, puckOnly.yield_source], [25, 'puck_flow']);
+});